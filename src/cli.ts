@@ -0,0 +1,25 @@
+#!/usr/bin/env bun
+/**
+ * 명령줄 클라이언트 진입점
+ * 파일을 서버와 같은 방식(lintCode)으로 린트하거나 --server로 원격 서버에 요청
+ *
+ * @example
+ * ```bash
+ * bun run src/cli.ts --fix -o nested "src/**\/*.scss"
+ * bun run src/cli.ts -s http://localhost:5002 -f github "**\/*.css"
+ * ```
+ */
+import { join } from 'node:path';
+
+const cwd = process.cwd();
+
+// 리포트 출력과 섞이지 않도록 기본 로그 레벨을 error로 낮춤
+process.env.LOG_LEVEL ??= 'error';
+
+// Stylelint의 확장 설정/플러그인과 프리셋(presets/)을 서버와 같은 위치에서 찾도록
+// 저장소 루트에서 실행 (파일 패턴과 규칙 파일은 원래 작업 디렉터리 기준)
+process.chdir(join(import.meta.dir, '..'));
+
+const { runCli } = await import('./services/cliService');
+
+process.exitCode = await runCli(process.argv.slice(2), { cwd });
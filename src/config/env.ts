@@ -1,4 +1,12 @@
-import { SERVER_CONFIG, ENV_MODE } from '../constants';
+import { availableParallelism } from 'node:os';
+import {
+  SERVER_CONFIG,
+  ENV_MODE,
+  WORKER_POOL,
+  LINT_CACHE,
+  JOBS,
+} from '../constants';
+import { DEFAULT_EXTENDS, DEFAULT_PLUGINS } from './stylelint';
 
 /**
  * 로그 레벨 타입
@@ -21,6 +29,30 @@ export interface AppEnv {
   CORS_ORIGIN: string | string[];
   /** 로그 레벨 (error, warn, info, debug) */
   LOG_LEVEL: LogLevelType;
+  /** 린트 프리셋 파일 디렉토리 */
+  PRESETS_DIR: string;
+  /** 요청에서 지정할 수 있는 Stylelint 확장 설정 목록 */
+  ALLOWED_EXTENDS: string[];
+  /** 요청에서 지정할 수 있는 Stylelint 플러그인 목록 */
+  ALLOWED_PLUGINS: string[];
+  /** 린트 워커 수 (0이면 워커 없이 메인 스레드에서 린트) */
+  LINT_WORKERS: number;
+  /** 린트 요청당 최대 제한 시간 (ms, 요청의 timeoutMs 상한) */
+  LINT_TIMEOUT_MS: number;
+  /** 린트 결과 캐시 최대 항목 수 (0이면 캐시 비활성화) */
+  LINT_CACHE_SIZE: number;
+  /** 린트 결과 캐시 최대 총 크기 (바이트) */
+  LINT_CACHE_MAX_BYTES: number;
+  /** 린트 결과 캐시 항목 유효 시간 (ms) */
+  LINT_CACHE_TTL_MS: number;
+  /** 동시에 실행할 최대 비동기 작업 수 */
+  JOB_CONCURRENCY: number;
+  /** 실행을 기다릴 수 있는 최대 비동기 작업 수 */
+  JOB_MAX_PENDING: number;
+  /** 결과를 보관하는 최대 종료 작업 수 */
+  JOB_MAX_FINISHED: number;
+  /** 종료된 작업 결과를 보관하는 시간 (ms) */
+  JOB_TTL_MS: number;
 }
 
 /**
@@ -80,6 +112,71 @@ function parseLogLevel(isDev: boolean): LogLevelType {
   return isDev ? 'debug' : 'info';
 }
 
+/**
+ * 허용 패키지 목록 파싱
+ * - 쉼표로 구분된 패키지 이름 목록
+ * - 미설정 시 기본 확장 설정/플러그인 목록 사용
+ * - 설치되지 않은 패키지가 있으면 서버 시작 중단
+ *
+ * @param name - 환경 변수 이름
+ * @param defaults - 기본 패키지 목록
+ * @returns 파싱된 패키지 목록
+ * @throws {Error} 설치되지 않은 패키지가 포함된 경우
+ */
+function parsePackageAllowlist(
+  name: string,
+  defaults: readonly string[],
+): string[] {
+  const value = process.env[name];
+  const packages =
+    value && value.trim().length > 0
+      ? value
+          .split(',')
+          .map((pkg) => pkg.trim())
+          .filter((pkg) => pkg.length > 0)
+      : [...defaults];
+
+  for (const pkg of packages) {
+    try {
+      import.meta.resolve(pkg);
+    } catch {
+      throw new Error(`Invalid ${name}: package "${pkg}" is not installed.`);
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * 정수 환경 변수 파싱
+ *
+ * @param name - 환경 변수 이름
+ * @param defaultValue - 미설정 시 기본값
+ * @param minimum - 허용하는 최솟값
+ * @returns 파싱된 정수
+ * @throws {Error} minimum 이상의 정수가 아닌 경우
+ */
+function parseIntegerEnv(
+  name: string,
+  defaultValue: number,
+  minimum: number,
+): number {
+  const value = process.env[name];
+
+  if (value === undefined || value.trim().length === 0) {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    throw new Error(
+      `Invalid ${name}: ${value}. Must be an integer greater than or equal to ${minimum}.`,
+    );
+  }
+
+  return parsed;
+}
+
 /**
  * 환경 변수 파싱 및 검증
  *
@@ -91,6 +188,8 @@ function parseEnv(): AppEnv {
     ? Number(process.env.PORT)
     : SERVER_CONFIG.DEFAULT_PORT;
   const host = process.env.HOST || SERVER_CONFIG.DEFAULT_HOST;
+  const presetsDir =
+    process.env.PRESETS_DIR || SERVER_CONFIG.DEFAULT_PRESETS_DIR;
   const nodeEnv = process.env.NODE_ENV || ENV_MODE.DEVELOPMENT;
   const isDev = nodeEnv === ENV_MODE.DEVELOPMENT;
 
@@ -112,6 +211,68 @@ function parseEnv(): AppEnv {
   // 로그 레벨 파싱
   const logLevel = parseLogLevel(isDev);
 
+  // 요청별 extends/plugins 허용 목록 파싱
+  const allowedExtends = parsePackageAllowlist(
+    'ALLOWED_EXTENDS',
+    DEFAULT_EXTENDS,
+  );
+  const allowedPlugins = parsePackageAllowlist(
+    'ALLOWED_PLUGINS',
+    DEFAULT_PLUGINS,
+  );
+
+  // 린트 워커 수 (미설정 시 CPU 코어 수 - 1, 0이면 메인 스레드에서 린트)
+  const lintWorkers = parseIntegerEnv(
+    'LINT_WORKERS',
+    Math.min(
+      WORKER_POOL.MAX_DEFAULT_SIZE,
+      Math.max(1, availableParallelism() - 1),
+    ),
+    0,
+  );
+
+  // 린트 제한 시간
+  const lintTimeoutMs = parseIntegerEnv(
+    'LINT_TIMEOUT_MS',
+    SERVER_CONFIG.REQUEST_TIMEOUT_MS,
+    1,
+  );
+
+  // 린트 결과 캐시 (크기 0이면 비활성화)
+  const lintCacheSize = parseIntegerEnv(
+    'LINT_CACHE_SIZE',
+    LINT_CACHE.DEFAULT_SIZE,
+    0,
+  );
+  const lintCacheMaxBytes = parseIntegerEnv(
+    'LINT_CACHE_MAX_BYTES',
+    LINT_CACHE.DEFAULT_MAX_BYTES,
+    1,
+  );
+  const lintCacheTtlMs = parseIntegerEnv(
+    'LINT_CACHE_TTL_MS',
+    LINT_CACHE.DEFAULT_TTL_MS,
+    1,
+  );
+
+  // 비동기 린트 작업 큐
+  const jobConcurrency = parseIntegerEnv(
+    'JOB_CONCURRENCY',
+    JOBS.DEFAULT_CONCURRENCY,
+    1,
+  );
+  const jobMaxPending = parseIntegerEnv(
+    'JOB_MAX_PENDING',
+    JOBS.DEFAULT_MAX_PENDING,
+    1,
+  );
+  const jobMaxFinished = parseIntegerEnv(
+    'JOB_MAX_FINISHED',
+    JOBS.DEFAULT_MAX_FINISHED,
+    1,
+  );
+  const jobTtlMs = parseIntegerEnv('JOB_TTL_MS', JOBS.DEFAULT_TTL_MS, 1);
+
   return {
     PORT: port,
     HOST: host,
@@ -119,6 +280,18 @@ function parseEnv(): AppEnv {
     isDev,
     CORS_ORIGIN: corsOrigin,
     LOG_LEVEL: logLevel,
+    PRESETS_DIR: presetsDir,
+    ALLOWED_EXTENDS: allowedExtends,
+    ALLOWED_PLUGINS: allowedPlugins,
+    LINT_WORKERS: lintWorkers,
+    LINT_TIMEOUT_MS: lintTimeoutMs,
+    LINT_CACHE_SIZE: lintCacheSize,
+    LINT_CACHE_MAX_BYTES: lintCacheMaxBytes,
+    LINT_CACHE_TTL_MS: lintCacheTtlMs,
+    JOB_CONCURRENCY: jobConcurrency,
+    JOB_MAX_PENDING: jobMaxPending,
+    JOB_MAX_FINISHED: jobMaxFinished,
+    JOB_TTL_MS: jobTtlMs,
   };
 }
 
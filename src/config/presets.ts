@@ -0,0 +1,151 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { env } from './env';
+import { LintPreset, StylelintRuleValue } from '../types';
+import { ValidationError } from '../errors';
+import { VALIDATION_ERRORS } from '../constants';
+import { logger } from '../utils/logger';
+
+/**
+ * 프리셋 이름 형식 (파일 이름에서 확장자를 제외한 부분)
+ */
+const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * 값이 문자열 배열인지 확인
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * 프리셋 파일 내용 파싱 및 검증
+ *
+ * @param name - 프리셋 이름
+ * @param raw - JSON 파싱된 파일 내용
+ * @returns 검증된 프리셋
+ * @throws {Error} 파일 내용이 유효하지 않은 경우
+ */
+function parsePreset(name: string, raw: unknown): LintPreset {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid preset "${name}": must be a JSON object.`);
+  }
+
+  const {
+    description,
+    extends: presetExtends = [],
+    plugins = [],
+    rules = {},
+  } = raw as Record<string, unknown>;
+
+  if (description !== undefined && typeof description !== 'string') {
+    throw new Error(`Invalid preset "${name}": description must be a string.`);
+  }
+
+  if (!isStringArray(presetExtends)) {
+    throw new Error(
+      `Invalid preset "${name}": extends must be an array of strings.`,
+    );
+  }
+
+  if (!isStringArray(plugins)) {
+    throw new Error(
+      `Invalid preset "${name}": plugins must be an array of strings.`,
+    );
+  }
+
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+    throw new Error(`Invalid preset "${name}": rules must be an object.`);
+  }
+
+  return {
+    name,
+    description,
+    extends: presetExtends,
+    plugins,
+    rules: rules as Record<string, StylelintRuleValue>,
+  };
+}
+
+/**
+ * 디렉토리의 JSON 파일에서 프리셋 로드
+ * 디렉토리가 없으면 빈 목록을 반환하고, 잘못된 파일이 있으면 서버 시작을 중단
+ *
+ * @param dir - 프리셋 디렉토리 경로
+ * @returns 이름별 프리셋 맵
+ * @throws {Error} 프리셋 파일이 유효하지 않은 경우
+ */
+export function loadPresets(dir: string): Map<string, LintPreset> {
+  const presetsDir = resolve(dir);
+  const presets = new Map<string, LintPreset>();
+
+  if (!existsSync(presetsDir)) {
+    logger.warn('Presets directory not found', { dir: presetsDir });
+    return presets;
+  }
+
+  const files = readdirSync(presetsDir)
+    .filter((file) => extname(file) === '.json')
+    .sort();
+
+  for (const file of files) {
+    const name = basename(file, '.json');
+    if (!PRESET_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid preset file name: ${file}. Use lowercase letters, digits and hyphens.`,
+      );
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(join(presetsDir, file), 'utf-8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid preset "${name}": ${message}`);
+    }
+
+    presets.set(name, parsePreset(name, raw));
+  }
+
+  logger.debug('Presets loaded', {
+    dir: presetsDir,
+    presets: [...presets.keys()],
+  });
+
+  return presets;
+}
+
+/**
+ * 서버 시작 시 로드된 프리셋 (싱글톤)
+ */
+export const presets = loadPresets(env.PRESETS_DIR);
+
+/**
+ * 로드된 프리셋 목록 반환
+ *
+ * @returns 이름순으로 정렬된 프리셋 목록
+ */
+export function listPresets(): LintPreset[] {
+  return [...presets.values()];
+}
+
+/**
+ * 이름으로 프리셋 조회
+ *
+ * @param name - 프리셋 이름
+ * @returns 프리셋
+ * @throws {ValidationError} 존재하지 않는 프리셋인 경우
+ */
+export function getPreset(name: string): LintPreset {
+  const preset = presets.get(name);
+  if (!preset) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.UNKNOWN_PRESET}: ${name}. 사용 가능한 프리셋: ${[...presets.keys()].join(', ')}`,
+      { preset: name },
+    );
+  }
+
+  return preset;
+}
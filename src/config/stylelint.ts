@@ -1,4 +1,9 @@
-import { StylelintConfig, CssSyntax, StylelintRuleValue } from '../types';
+import {
+  StylelintConfig,
+  CssSyntax,
+  StylelintRuleValue,
+  StylelintConfigOptions,
+} from '../types';
 
 /**
  * Stylelint 기본 확장 설정 목록
@@ -28,13 +33,63 @@ export const DEFAULT_PLUGINS = [
 const SYNTAX_PARSER_MAP: Record<CssSyntax, string | undefined> = {
   css: undefined,
   html: 'postcss-html',
+  scss: 'postcss-scss',
+  sass: 'postcss-sass',
+  less: 'postcss-less',
 };
 
+/**
+ * 문법별로 제외할 확장 설정
+ * - less: SCSS 전용 규칙이 Less 변수/믹스인 노드에서 실행 중 오류를 일으킴
+ */
+const SYNTAX_EXCLUDED_EXTENDS: Partial<Record<CssSyntax, readonly string[]>> = {
+  less: ['stylelint-config-recommended-scss'],
+};
+
+/**
+ * 이전 규칙 이름 → 현재 규칙 이름
+ * stylelint v16에서 스타일 규칙이 @stylistic/*으로 이동했으므로 이전 이름을 계속 허용
+ */
+export const RULE_NAME_ALIASES: Readonly<Record<string, string>> = {
+  'color-hex-case': '@stylistic/color-hex-case',
+};
+
+/**
+ * 규칙 이름 호환 매핑
+ *
+ * @param rules - 변환할 규칙 (원본은 변경하지 않음)
+ * @returns 이름이 정규화된 규칙
+ */
+export function normalizeRuleNames(
+  rules: Record<string, StylelintRuleValue>,
+): Record<string, StylelintRuleValue> {
+  const normalizedRules: Record<string, StylelintRuleValue> = { ...rules };
+  for (const [alias, name] of Object.entries(RULE_NAME_ALIASES)) {
+    if (normalizedRules[alias] !== undefined) {
+      normalizedRules[name] = normalizedRules[alias];
+      delete normalizedRules[alias];
+    }
+  }
+
+  return normalizedRules;
+}
+
+/**
+ * 중복을 제거하며 목록 병합 (먼저 나온 항목의 순서 유지)
+ */
+function mergeUnique(...lists: ReadonlyArray<readonly string[]>): string[] {
+  return [...new Set(lists.flat())];
+}
+
 /**
  * Stylelint 설정 객체 생성
+ * - 프리셋을 지정하면 프리셋의 extends/plugins를 기본값에 더하고,
+ *   요청 규칙이 프리셋 규칙을 덮어씀
+ * - extends/plugins를 지정하면 기본값과 프리셋 대신 그 목록을 그대로 사용
  *
  * @param rules - 사용자 정의 린트 규칙
- * @param syntax - CSS 문법 타입 ('css' 또는 'html')
+ * @param syntax - CSS 문법 타입 ('css', 'html', 'scss', 'sass', 'less')
+ * @param options - 프리셋 및 extends/plugins 지정 (선택사항)
  * @returns 완전한 Stylelint 설정 객체
  *
  * @example
@@ -48,18 +103,22 @@ const SYNTAX_PARSER_MAP: Record<CssSyntax, string | undefined> = {
 export function createStylelintConfig(
   rules: Record<string, StylelintRuleValue>,
   syntax: CssSyntax,
+  options: StylelintConfigOptions = {},
 ): StylelintConfig {
-  // stylelint v16에서 스타일 규칙이 @stylistic/*으로 이동했으므로 호환 매핑 처리
-  const normalizedRules: Record<string, StylelintRuleValue> = { ...rules };
-  if (normalizedRules['color-hex-case'] !== undefined) {
-    normalizedRules['@stylistic/color-hex-case'] =
-      normalizedRules['color-hex-case'];
-    delete normalizedRules['color-hex-case'];
-  }
+  const { preset } = options;
+
+  // 이름을 각각 정규화한 뒤 병합해야 요청 규칙이 항상 프리셋 규칙을 덮어씀
+  const normalizedRules: Record<string, StylelintRuleValue> = {
+    ...normalizeRuleNames(preset?.rules ?? {}),
+    ...normalizeRuleNames(rules),
+  };
 
   const config: StylelintConfig = {
-    extends: [...DEFAULT_EXTENDS],
-    plugins: [...DEFAULT_PLUGINS],
+    extends: (
+      options.extends ?? mergeUnique(DEFAULT_EXTENDS, preset?.extends ?? [])
+    ).filter((name) => !SYNTAX_EXCLUDED_EXTENDS[syntax]?.includes(name)),
+    plugins:
+      options.plugins ?? mergeUnique(DEFAULT_PLUGINS, preset?.plugins ?? []),
     rules: normalizedRules,
   };
 
@@ -7,11 +7,16 @@
  */
 export const HTTP_STATUS = {
   OK: 200,
+  ACCEPTED: 202,
+  NOT_MODIFIED: 304,
   BAD_REQUEST: 400,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   PAYLOAD_TOO_LARGE: 413,
   UNPROCESSABLE_ENTITY: 422,
   INTERNAL_SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
 } as const;
 
 /**
@@ -20,9 +25,12 @@ export const HTTP_STATUS = {
 export const SERVER_CONFIG = {
   DEFAULT_PORT: 5002,
   DEFAULT_HOST: '0.0.0.0',
+  /** 린트 요청당 기본 제한 시간 (LINT_TIMEOUT_MS로 변경 가능) */
   REQUEST_TIMEOUT_MS: 30000,
   /** 최대 요청 본문 크기 (5MB) - 보안을 위한 제한 */
   MAX_BODY_SIZE: 5 * 1024 * 1024,
+  /** 린트 프리셋 파일 기본 디렉토리 (작업 디렉토리 기준) */
+  DEFAULT_PRESETS_DIR: 'presets',
 } as const;
 
 /**
@@ -34,6 +42,14 @@ export const API_ROUTES = {
   DOCS: '/docs',
   HEALTH: '/health',
   LINT: '/lint',
+  LINT_BATCH: '/lint/batch',
+  LINT_CHANGED: '/lint/changed',
+  PRESETS: '/presets',
+  RULES: '/rules',
+  JOBS: '/jobs',
+  JOB: '/jobs/:id',
+  CACHE: '/cache',
+  LIVE_LINT: '/lint/live',
 } as const;
 
 /**
@@ -62,6 +78,8 @@ export const MESSAGES = {
   SUCCESS: '성공',
   SERVER_ERROR: '서버 오류가 발생했습니다',
   INTERNAL_ERROR: '내부 서버 오류가 발생했습니다',
+  WORKER_CRASHED: '린트 워커가 비정상 종료되었습니다',
+  LINT_CANCELLED: '새 요청으로 대체되어 린트가 취소되었습니다',
 } as const;
 
 /**
@@ -72,28 +90,279 @@ export const VALIDATION_ERRORS = {
   INVALID_CODE_TYPE: 'CSS 코드는 문자열이어야 합니다',
   INVALID_SYNTAX: '지원하지 않는 문법입니다',
   INVALID_OUTPUT_STYLE: '지원하지 않는 출력 스타일입니다',
+  INVALID_FORMAT_OPTIONS: '포맷 옵션은 객체여야 합니다',
+  INVALID_INDENT_SIZE: '들여쓰기 크기가 올바르지 않습니다',
+  INVALID_NEWLINE: '지원하지 않는 줄바꿈 스타일입니다',
+  INVALID_QUOTE: '지원하지 않는 따옴표 옵션입니다',
+  INVALID_FIX_OPTION: '지원하지 않는 자동 수정 옵션입니다',
+  INVALID_BOOLEAN_OPTION: '옵션 값은 boolean이어야 합니다',
+  INVALID_TIMEOUT: '제한 시간은 1 이상의 정수(밀리초)여야 합니다',
   EMPTY_RULES: '최소 하나 이상의 린트 규칙이 필요합니다',
   INVALID_RULES_TYPE: '린트 규칙은 객체여야 합니다',
+  INVALID_RULES: '유효하지 않은 린트 규칙이 있습니다',
+  UNKNOWN_RULE: '존재하지 않는 규칙입니다',
+  UNKNOWN_PRESET: '존재하지 않는 프리셋입니다',
+  INVALID_PACKAGE_LIST: '패키지 목록은 문자열 배열이어야 합니다',
+  PACKAGE_NOT_ALLOWED: '허용되지 않은 패키지입니다',
+  EMPTY_FILES: '최소 하나 이상의 파일이 필요합니다',
+  TOO_MANY_FILES: '한 번에 린트할 수 있는 파일 수를 초과했습니다',
+  INVALID_FILE_PATH: '파일 경로는 비어있지 않은 문자열이어야 합니다',
+  DUPLICATE_FILE_PATH: '중복된 파일 경로가 있습니다',
+  CHANGED_LINES_REQUIRED:
+    'diff 또는 파일별 변경된 줄 범위(changedLines)를 지정해야 합니다',
+  INVALID_LINE_RANGE: '줄 범위가 올바르지 않습니다',
+  INVALID_DIFF: 'unified diff에서 파일 변경 구간을 찾을 수 없습니다',
   PARSE_ERROR: 'CSS 파싱 중 오류가 발생했습니다',
   LINT_ERROR: '린트 실행 중 오류가 발생했습니다',
+  LINT_TIMEOUT: '린트 제한 시간을 초과했습니다',
   UNKNOWN_ERROR: '알 수 없는 오류가 발생했습니다',
 } as const;
 
+/**
+ * 비동기 린트 작업 에러 메시지
+ */
+export const JOB_ERRORS = {
+  NOT_FOUND: '존재하지 않거나 만료된 작업입니다',
+  QUEUE_FULL: '대기 중인 작업이 너무 많습니다. 잠시 후 다시 시도하세요',
+} as const;
+
+/**
+ * 실시간 린트(WebSocket) 에러 메시지
+ */
+export const LIVE_LINT_ERRORS = {
+  INVALID_MESSAGE: '지원하지 않는 메시지 형식입니다',
+  NOT_OPENED: '먼저 open 메시지로 세션을 열어야 합니다',
+  STALE_VERSION: 'version은 이전 update보다 커야 합니다',
+} as const;
+
+/**
+ * Language Server Protocol 에러 메시지
+ */
+export const LSP_ERRORS = {
+  PARSE_ERROR: 'JSON-RPC 메시지를 파싱할 수 없습니다',
+  NOT_INITIALIZED: '서버가 아직 초기화되지 않았습니다',
+  METHOD_NOT_FOUND: '지원하지 않는 메서드입니다',
+} as const;
+
+/**
+ * Language Server Protocol 모드 관련 상수
+ */
+export const LSP = {
+  /** initialize 응답의 서버 이름 */
+  SERVER_NAME: 'mongmung-csslint',
+  /** 진단 출처 */
+  DIAGNOSTIC_SOURCE: 'stylelint',
+  /** initializationOptions.config 미지정 시 사용할 프리셋 */
+  DEFAULT_PRESET: 'standard',
+  /** 문서 포맷팅 기본 출력 스타일 (config.outputStyle로 변경 가능) */
+  DEFAULT_OUTPUT_STYLE: 'nested',
+  /** "모두 수정" 코드 액션 종류 */
+  FIX_ALL_KIND: 'source.fixAll.stylelint',
+  FIX_ALL_TITLE: 'Stylelint: 자동 수정 가능한 문제 모두 수정',
+  /** 문서 언어 ID → 린트 문법 (목록에 없는 언어의 문서는 무시) */
+  LANGUAGE_SYNTAX: {
+    css: 'css',
+    postcss: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less',
+    html: 'html',
+    vue: 'html',
+  },
+  /** JSON-RPC/LSP 에러 코드 */
+  ERROR_CODES: {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INTERNAL_ERROR: -32603,
+    SERVER_NOT_INITIALIZED: -32002,
+    REQUEST_FAILED: -32803,
+  },
+} as const;
+
+/**
+ * 명령줄 클라이언트 에러 메시지
+ */
+export const CLI_ERRORS = {
+  INVALID_ARGUMENTS: '명령줄 인수가 올바르지 않습니다',
+  NO_PATTERNS: '린트할 파일 패턴을 지정해야 합니다',
+  NO_FILES: '패턴과 일치하는 린트 가능한 파일이 없습니다',
+  INVALID_FORMAT: '지원하지 않는 리포트 포맷입니다',
+  RULES_FILE_NOT_FOUND: '규칙 파일을 찾을 수 없습니다',
+  INVALID_RULES_FILE: '규칙 파일은 JSON 객체여야 합니다',
+  REMOTE_REQUEST_FAILED: '원격 서버 요청에 실패했습니다',
+} as const;
+
+/**
+ * 명령줄 클라이언트 관련 상수
+ */
+export const CLI = {
+  /** 실행 파일 이름 (도움말 표시용) */
+  NAME: 'mongmung-csslint',
+  /** --preset, --rules 모두 미지정 시 사용할 프리셋 */
+  DEFAULT_PRESET: 'standard',
+  /** --format 미지정 시 리포트 포맷 */
+  DEFAULT_FORMAT: 'text',
+  /** 지원 리포트 포맷 (text: 터미널용 요약, 나머지는 서버 리포트 포맷과 동일) */
+  SUPPORTED_FORMATS: [
+    'text',
+    'json',
+    'sarif',
+    'checkstyle',
+    'junit',
+    'github',
+  ] as const,
+  /** 파일 확장자 → 린트 문법 (목록에 없는 확장자의 파일은 무시) */
+  EXTENSION_SYNTAX: {
+    '.css': 'css',
+    '.pcss': 'css',
+    '.scss': 'scss',
+    '.sass': 'sass',
+    '.less': 'less',
+    '.html': 'html',
+    '.htm': 'html',
+    '.vue': 'html',
+  },
+  /** 패턴과 일치해도 린트하지 않는 디렉터리 */
+  IGNORED_DIRECTORIES: ['node_modules', '.git'],
+  /** 종료 코드 */
+  EXIT_CODES: {
+    SUCCESS: 0,
+    /** error 심각도의 경고 또는 실패한 파일이 있음 */
+    LINT_ERRORS: 1,
+    /** 잘못된 인수, 설정 오류, 원격 서버 연결 실패 등 */
+    FATAL: 2,
+  },
+} as const;
+
 /**
  * Stylelint 관련 상수
  */
 export const STYLELINT_CONSTANTS = {
   MIN_RULES_COUNT: 1,
-  SUPPORTED_SYNTAXES: ['css', 'html'] as const,
-  SUPPORTED_OUTPUT_STYLES: ['compact', 'nested'] as const,
+  /** 배치 요청당 최대 파일 수 */
+  MAX_BATCH_FILES: 100,
+  SUPPORTED_SYNTAXES: ['css', 'html', 'scss', 'sass', 'less'] as const,
+  SUPPORTED_OUTPUT_STYLES: [
+    'compact',
+    'nested',
+    'expanded',
+    'compressed',
+  ] as const,
+  SUPPORTED_FIX_MODES: ['lax', 'strict'] as const,
+  /** "did you mean" 제안으로 인정할 최대 편집 거리 */
+  MAX_SUGGESTION_DISTANCE: 3,
 } as const;
 
 /**
  * 포맷팅 관련 상수
  */
 export const FORMATTING = {
-  /** 들여쓰기 문자열 (스페이스 2개) */
-  INDENT: '  ',
-  /** 들여쓰기 레벨당 스페이스 수 */
+  /** 기본 들여쓰기 레벨당 스페이스 수 */
   INDENT_SIZE: 2,
+  /** 허용하는 들여쓰기 스페이스 수 범위 */
+  MIN_INDENT_SIZE: 1,
+  MAX_INDENT_SIZE: 8,
+  /** 기본 줄바꿈 스타일 */
+  DEFAULT_NEWLINE: 'lf',
+  /** 기본 따옴표 선호 */
+  DEFAULT_QUOTE: 'preserve',
+  /** 줄바꿈 스타일별 문자열 */
+  NEWLINES: { lf: '\n', crlf: '\r\n' },
+  SUPPORTED_NEWLINES: ['lf', 'crlf'] as const,
+  SUPPORTED_QUOTES: ['single', 'double', 'preserve'] as const,
+} as const;
+
+/**
+ * Diff 관련 상수
+ */
+export const DIFF = {
+  /** Unified diff 헤더에 표시할 파일 이름 */
+  FILE_NAME: 'input',
+  /** 변경 구간 앞뒤로 포함할 문맥 줄 수 */
+  CONTEXT_LINES: 3,
+  /** 파일 추가/삭제 시 unified diff 헤더의 빈 파일 이름 */
+  NULL_FILE: '/dev/null',
+  /** git diff가 새 파일 이름 앞에 붙이는 접두사 */
+  NEW_FILE_PREFIX: 'b/',
+} as const;
+
+/**
+ * 리포트 포맷 관련 상수
+ */
+export const REPORT = {
+  SUPPORTED_FORMATS: [
+    'json',
+    'sarif',
+    'checkstyle',
+    'junit',
+    'github',
+  ] as const,
+  /** 포맷별 응답 Content-Type */
+  CONTENT_TYPES: {
+    json: 'application/json; charset=utf-8',
+    sarif: 'application/sarif+json; charset=utf-8',
+    checkstyle: 'application/xml; charset=utf-8',
+    junit: 'application/xml; charset=utf-8',
+    github: 'text/plain; charset=utf-8',
+  },
+  /** Accept 헤더의 미디어 타입별 포맷 (XML은 Checkstyle로 해석) */
+  ACCEPT_TYPES: {
+    'application/json': 'json',
+    'application/sarif+json': 'sarif',
+    'application/xml': 'checkstyle',
+    'text/xml': 'checkstyle',
+    'text/plain': 'github',
+  },
+  /** 단일 린트 요청의 리포트에 표시할 파일 이름 (확장자는 문법으로 결정) */
+  FILE_NAME: 'input',
+  /** 리포트에 표시할 도구 정보 */
+  TOOL_NAME: 'stylelint',
+  TOOL_URI: 'https://stylelint.io',
+  SARIF_VERSION: '2.1.0',
+  SARIF_SCHEMA: 'https://json.schemastore.org/sarif-2.1.0.json',
+} as const;
+
+/**
+ * 비동기 린트 작업 관련 상수
+ */
+export const JOBS = {
+  /** JOB_CONCURRENCY 미설정 시 동시에 실행할 최대 작업 수 */
+  DEFAULT_CONCURRENCY: 2,
+  /** JOB_MAX_PENDING 미설정 시 실행을 기다릴 수 있는 최대 작업 수 (초과 시 503) */
+  DEFAULT_MAX_PENDING: 100,
+  /** JOB_MAX_FINISHED 미설정 시 결과를 보관하는 종료된 작업 수 (초과 시 오래된 작업부터 삭제) */
+  DEFAULT_MAX_FINISHED: 100,
+  /** JOB_TTL_MS 미설정 시 종료된 작업 결과를 보관하는 시간 (10분) */
+  DEFAULT_TTL_MS: 10 * 60 * 1000,
+  /** 만료된 작업 정리 주기 (1분) */
+  CLEANUP_INTERVAL_MS: 60 * 1000,
+} as const;
+
+/**
+ * 린트 워커 풀 관련 상수
+ */
+export const WORKER_POOL = {
+  /** LINT_WORKERS 미설정 시 최대 워커 수 (CPU 코어 수 - 1과 비교해 작은 값) */
+  MAX_DEFAULT_SIZE: 4,
+} as const;
+
+/**
+ * 해석된 Stylelint 설정 캐시 관련 상수
+ */
+export const STYLELINT_CONFIG_CACHE = {
+  /** 캐시할 최대 설정 수 (규칙/문법 조합별 1개) */
+  SIZE: 100,
+} as const;
+
+/**
+ * 린트 결과 캐시 관련 상수
+ */
+export const LINT_CACHE = {
+  /** LINT_CACHE_SIZE 미설정 시 최대 항목 수 */
+  DEFAULT_SIZE: 500,
+  /** LINT_CACHE_MAX_BYTES 미설정 시 최대 총 크기 (50MB) */
+  DEFAULT_MAX_BYTES: 50 * 1024 * 1024,
+  /** LINT_CACHE_TTL_MS 미설정 시 항목 유효 시간 (10분) */
+  DEFAULT_TTL_MS: 10 * 60 * 1000,
 } as const;
@@ -0,0 +1,36 @@
+import { getLintCacheStats } from '../services/lintCacheService';
+import { LintCacheStatsResult } from '../types';
+import { MESSAGES } from '../constants';
+
+/**
+ * 린트 결과 캐시 통계 요청 핸들러
+ * GET /cache 엔드포인트의 요청을 처리
+ *
+ * @returns 캐시 적중/미스 횟수와 용량 정보
+ *
+ * @example
+ * ```typescript
+ * // 성공 응답:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     hits: 42,
+ *     misses: 8,
+ *     hitRate: 0.84,
+ *     size: 8,
+ *     capacity: 500,
+ *     bytes: 48213,
+ *     maxBytes: 52428800,
+ *     ttlMs: 600000
+ *   }
+ * }
+ * ```
+ */
+export function handleCacheStatsRequest(): LintCacheStatsResult {
+  return {
+    success: true,
+    message: MESSAGES.SUCCESS,
+    content: getLintCacheStats(),
+  };
+}
@@ -0,0 +1,169 @@
+import {
+  cancelLintJob,
+  createLintJob,
+  getLintJob,
+} from '../services/jobService';
+import { LintJobResult, LintRequest } from '../types';
+import { API_ROUTES, HTTP_STATUS, MESSAGES } from '../constants';
+import { logger } from '../utils/logger';
+import { toAppError } from '../errors';
+
+/**
+ * Elysia 컨텍스트 타입
+ */
+interface ElysiaContext {
+  set: {
+    status?: number | string;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * 작업 생성 요청 컨텍스트
+ */
+interface CreateJobContext extends ElysiaContext {
+  body: LintRequest;
+}
+
+/**
+ * 작업 ID 경로 파라미터를 가진 요청 컨텍스트
+ */
+interface JobParamsContext extends ElysiaContext {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * 에러를 로깅하고 HTTP 상태 코드를 설정한 뒤 실패 응답을 생성
+ *
+ * @param error - 발생한 에러
+ * @param set - Elysia 응답 설정 객체
+ * @param logMessage - 로그 메시지
+ * @returns 실패 응답
+ */
+function toErrorResponse(
+  error: unknown,
+  set: ElysiaContext['set'],
+  logMessage: string,
+): LintJobResult {
+  const appError = toAppError(error);
+
+  logger.error(logMessage, {
+    message: appError.message,
+    code: appError.code,
+    statusCode: appError.statusCode,
+    context: appError.context,
+  });
+
+  set.status = appError.statusCode;
+
+  return {
+    success: false,
+    message: appError.message,
+    content: null,
+    ...(appError.context && { context: appError.context }),
+  };
+}
+
+/**
+ * 작업 생성 요청 핸들러
+ * POST /jobs 엔드포인트의 요청을 처리하고 202 응답으로 작업 ID를 즉시 반환
+ *
+ * @param context - Elysia 컨텍스트 (body, set 포함)
+ * @returns 생성된 작업 또는 에러 응답
+ *
+ * @example
+ * ```typescript
+ * // 202 응답 (Location: /jobs/V1StGXR8_Z5jdHi6B-myT):
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     id: "V1StGXR8_Z5jdHi6B-myT",
+ *     status: "queued",
+ *     createdAt: "2024-01-01T00:00:00.000Z"
+ *   }
+ * }
+ * ```
+ */
+export async function handleCreateJobRequest(
+  context: CreateJobContext,
+): Promise<LintJobResult> {
+  const { body, set } = context;
+
+  try {
+    const job = await createLintJob(body);
+
+    set.status = HTTP_STATUS.ACCEPTED;
+    set.headers = {
+      ...set.headers,
+      location: `${API_ROUTES.JOBS}/${job.id}`,
+    };
+
+    return { success: true, message: MESSAGES.SUCCESS, content: job };
+  } catch (error) {
+    return toErrorResponse(error, set, 'Job create request failed');
+  }
+}
+
+/**
+ * 작업 조회 요청 핸들러
+ * GET /jobs/:id 엔드포인트의 요청을 처리
+ *
+ * @param context - Elysia 컨텍스트 (params, set 포함)
+ * @returns 작업 상태 및 결과 또는 에러 응답
+ *
+ * @example
+ * ```typescript
+ * // 완료된 작업:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     id: "V1StGXR8_Z5jdHi6B-myT",
+ *     status: "completed",
+ *     result: { warnings: [], output: "...", info: {...} },
+ *     ...
+ *   }
+ * }
+ * ```
+ */
+export function handleJobStatusRequest(
+  context: JobParamsContext,
+): LintJobResult {
+  const { params, set } = context;
+
+  try {
+    return {
+      success: true,
+      message: MESSAGES.SUCCESS,
+      content: getLintJob(params.id),
+    };
+  } catch (error) {
+    return toErrorResponse(error, set, 'Job status request failed');
+  }
+}
+
+/**
+ * 작업 취소 요청 핸들러
+ * DELETE /jobs/:id 엔드포인트의 요청을 처리
+ *
+ * @param context - Elysia 컨텍스트 (params, set 포함)
+ * @returns 취소된 작업 또는 에러 응답
+ */
+export function handleCancelJobRequest(
+  context: JobParamsContext,
+): LintJobResult {
+  const { params, set } = context;
+
+  try {
+    return {
+      success: true,
+      message: MESSAGES.SUCCESS,
+      content: cancelLintJob(params.id),
+    };
+  } catch (error) {
+    return toErrorResponse(error, set, 'Job cancel request failed');
+  }
+}
@@ -1,15 +1,138 @@
-import { lintCode } from '../services/lintService';
-import { LintRequest, LintResult } from '../types';
+import {
+  lintBatch,
+  lintChangedLines,
+  validateLintRequest,
+} from '../services/lintService';
+import { lintInWorker } from '../services/lintWorkerPool';
+import {
+  createLintCacheKey,
+  lintResultCache,
+} from '../services/lintCacheService';
+import {
+  LintBatchRequest,
+  LintBatchResult,
+  LintChangedRequest,
+  LintChangedResult,
+  LintRequest,
+  LintResult,
+  ReportFile,
+  ReportFormat,
+} from '../types';
 import { logger } from '../utils/logger';
+import {
+  REPORTERS,
+  resolveReportFormat,
+  toBatchReportFiles,
+} from '../utils/reporters';
 import { toAppError } from '../errors';
+import { HTTP_STATUS, REPORT } from '../constants';
 
 /**
  * Elysia 컨텍스트 타입
  */
-interface ElysiaContext {
-  body: LintRequest;
+interface ElysiaContext<TBody = LintRequest> {
+  body: TBody;
+  query?: {
+    format?: ReportFormat;
+  };
+  headers?: Record<string, string | undefined>;
   set: {
     status?: number | string;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * format 쿼리 파라미터와 Accept 헤더로 응답 리포트 포맷 결정
+ */
+function resolveFormat(context: ElysiaContext<unknown>): ReportFormat {
+  return resolveReportFormat(context.query?.format, context.headers?.accept);
+}
+
+/**
+ * 요청한 리포트 포맷으로 린트 결과를 직렬화
+ * json 포맷이면 undefined를 반환하여 기본 응답을 그대로 사용
+ *
+ * @param context - Elysia 컨텍스트 (set 포함)
+ * @param format - 응답 리포트 포맷
+ * @param files - 파일별 린트 결과
+ * @param toolVersion - 리포트에 표시할 Stylelint 버전
+ * @returns 직렬화된 리포트 (json 포맷이면 undefined)
+ */
+function toReport(
+  context: ElysiaContext<unknown>,
+  format: ReportFormat,
+  files: ReportFile[],
+  toolVersion: string,
+): string | undefined {
+  if (format === 'json') {
+    return undefined;
+  }
+
+  context.set.headers = {
+    ...context.set.headers,
+    'content-type': REPORT.CONTENT_TYPES[format],
+  };
+
+  return REPORTERS[format](files, toolVersion);
+}
+
+/**
+ * If-None-Match 헤더가 ETag와 일치하는지 확인
+ * 쉼표로 구분된 목록과 약한 비교(W/)를 지원하며, 와일드카드(*)는 특정 결과를
+ * 가리키지 않으므로 일치로 보지 않음 (POST에서는 항상 새로 린트)
+ *
+ * @param ifNoneMatch - If-None-Match 헤더 값
+ * @param etag - 응답 ETag
+ * @returns 일치 여부
+ */
+function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === etag);
+}
+
+/**
+ * 에러를 로깅하고 HTTP 상태 코드를 설정한 뒤 실패 응답을 생성
+ *
+ * @param error - 발생한 에러
+ * @param set - Elysia 응답 설정 객체
+ * @param logMessage - 로그 메시지
+ * @returns 실패 응답
+ */
+function toErrorResponse(
+  error: unknown,
+  set: ElysiaContext['set'],
+  logMessage: string,
+): {
+  success: false;
+  message: string;
+  content: null;
+  context?: Record<string, unknown>;
+} {
+  // AppError 계열 에러 처리
+  const appError = toAppError(error);
+
+  logger.error(logMessage, {
+    message: appError.message,
+    code: appError.code,
+    statusCode: appError.statusCode,
+    context: appError.context,
+  });
+
+  // HTTP 상태 코드 설정
+  set.status = appError.statusCode;
+
+  return {
+    success: false,
+    message: appError.message,
+    content: null,
+    ...(appError.context && { context: appError.context }),
   };
 }
 
@@ -17,8 +140,12 @@ interface ElysiaContext {
  * 린트 요청 핸들러
  * POST /lint 엔드포인트의 요청을 처리하고 적절한 응답을 반환
  *
- * @param context - Elysia 컨텍스트 (body, set 포함)
- * @returns 린트 결과 또는 에러 응답
+ * format 쿼리 파라미터나 Accept 헤더로 SARIF 등 리포트 포맷을 요청할 수 있음
+ * 성공 응답에는 ETag를 붙이고, 요청을 검증한 뒤 If-None-Match가 이 서버가 발급한
+ * (결과 캐시에 남아 있는) ETag와 일치하면 린트하지 않고 304를 반환
+ *
+ * @param context - Elysia 컨텍스트 (body, query, headers, set 포함)
+ * @returns 린트 결과, 요청한 포맷의 리포트 또는 에러 응답
  *
  * @example
  * ```typescript
@@ -39,31 +166,155 @@ interface ElysiaContext {
  */
 export async function handleLintRequest(
   context: ElysiaContext,
-): Promise<LintResult> {
+): Promise<LintResult | string> {
+  const { body, set } = context;
+
+  try {
+    // 잘못된 입력은 조건부 요청이어도 항상 400으로 응답
+    await validateLintRequest(body);
+
+    const format = resolveFormat(context);
+
+    // 같은 입력과 포맷이면 응답이 같으므로 캐시 키로 ETag 생성
+    const cacheKey = createLintCacheKey(body);
+    const etag = `"${format === 'json' ? cacheKey : `${cacheKey}-${format}`}"`;
+
+    // 결과 캐시에는 성공한 린트 결과만 있으므로, 이 서버가 발급한 ETag와 일치할
+    // 때만 린트를 건너뜀 (캐시가 만료되면 다시 린트하여 200으로 응답)
+    if (
+      matchesETag(context.headers?.['if-none-match'], etag) &&
+      lintResultCache.has(cacheKey)
+    ) {
+      set.headers = { ...set.headers, etag, vary: 'Accept' };
+      set.status = HTTP_STATUS.NOT_MODIFIED;
+      return '';
+    }
+
+    // 워커 풀에서 린트 실행 (같은 입력이면 캐시된 결과)
+    const result = await lintInWorker(body);
+    set.headers = { ...set.headers, etag, vary: 'Accept' };
+
+    // 리포트 포맷 요청 시 문법에 맞는 확장자의 파일 이름으로 변환
+    const report =
+      result.content &&
+      toReport(
+        context,
+        format,
+        [
+          {
+            path: `${REPORT.FILE_NAME}.${body.syntax}`,
+            warnings: result.content.warnings,
+          },
+        ],
+        result.content.info.version,
+      );
+
+    return report ?? result;
+  } catch (error) {
+    return toErrorResponse(error, set, 'Lint request failed');
+  }
+}
+
+/**
+ * 배치 린트 요청 핸들러
+ * POST /lint/batch 엔드포인트의 요청을 처리
+ * 파일별 실패는 200 응답의 파일 결과에 담기고, 요청 자체가 유효하지 않은
+ * 경우에만 에러 응답을 반환
+ *
+ * 리포트 포맷 요청 시 실패한 파일은 파일 단위 에러로 표시
+ *
+ * @param context - Elysia 컨텍스트 (body, query, headers, set 포함)
+ * @returns 파일 경로별 린트 결과, 요청한 포맷의 리포트 또는 에러 응답
+ *
+ * @example
+ * ```typescript
+ * // 성공 응답:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     results: {
+ *       "a.css": { success: true, message: "성공", content: {...} },
+ *       "b.css": { success: false, message: "CSS 코드가 비어있습니다", content: null }
+ *     },
+ *     summary: { total: 2, succeeded: 1, failed: 1 }
+ *   }
+ * }
+ * ```
+ */
+export async function handleLintBatchRequest(
+  context: ElysiaContext<LintBatchRequest>,
+): Promise<LintBatchResult | string> {
+  const { body, set } = context;
+
+  try {
+    const result = await lintBatch(body, lintInWorker);
+    if (!result.content) {
+      return result;
+    }
+
+    // 실패한 파일은 리포트에 파일 단위 에러로 표시
+    const { results } = result.content;
+    const report = toReport(
+      context,
+      resolveFormat(context),
+      toBatchReportFiles(results),
+      Object.values(results).find((fileResult) => fileResult.content)?.content
+        ?.info.version ?? 'unknown',
+    );
+
+    return report ?? result;
+  } catch (error) {
+    return toErrorResponse(error, set, 'Batch lint request failed');
+  }
+}
+
+/**
+ * 변경된 줄 린트 요청 핸들러
+ * POST /lint/changed 엔드포인트의 요청을 처리
+ * 배치 린트와 같은 형식에 파일별/전체 제외 경고 수가 추가되며,
+ * 리포트 포맷 요청 시 변경된 줄의 경고만 포함
+ *
+ * @param context - Elysia 컨텍스트 (body, query, headers, set 포함)
+ * @returns 파일 경로별 린트 결과, 요청한 포맷의 리포트 또는 에러 응답
+ *
+ * @example
+ * ```typescript
+ * // 성공 응답:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     results: {
+ *       "a.css": { success: true, ..., changedLines: [{ start: 2, end: 2 }], filteredWarnings: 3 }
+ *     },
+ *     summary: { total: 1, succeeded: 1, failed: 0, warnings: 1, filteredWarnings: 3 }
+ *   }
+ * }
+ * ```
+ */
+export async function handleLintChangedRequest(
+  context: ElysiaContext<LintChangedRequest>,
+): Promise<LintChangedResult | string> {
   const { body, set } = context;
 
   try {
-    // 린트 서비스 호출
-    const result = await lintCode(body);
-    return result;
+    const result = await lintChangedLines(body, lintInWorker);
+    if (!result.content) {
+      return result;
+    }
+
+    const { results } = result.content;
+    const report = toReport(
+      context,
+      resolveFormat(context),
+      toBatchReportFiles(results),
+      Object.values(results).find((fileResult) => fileResult.content)?.content
+        ?.info.version ?? 'unknown',
+    );
+
+    return report ?? result;
   } catch (error) {
-    // AppError 계열 에러 처리
-    const appError = toAppError(error);
-
-    logger.error('Lint request failed', {
-      message: appError.message,
-      code: appError.code,
-      statusCode: appError.statusCode,
-      context: appError.context,
-    });
-
-    // HTTP 상태 코드 설정
-    set.status = appError.statusCode;
-
-    return {
-      success: false,
-      message: appError.message,
-      content: null,
-    };
+    return toErrorResponse(error, set, 'Changed lines lint request failed');
   }
 }
@@ -0,0 +1,103 @@
+import { ValidationError as SchemaValidationError } from 'elysia';
+import { LiveLintSession } from '../services/liveLintService';
+import { LiveLintClientMessage, LiveLintServerMessage } from '../types';
+import { LIVE_LINT_ERRORS, MESSAGES } from '../constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Elysia WebSocket 연결 타입
+ */
+interface LiveLintSocket {
+  /** 연결 ID (연결이 유지되는 동안 같은 값) */
+  id: string;
+  send(message: LiveLintServerMessage): unknown;
+}
+
+/**
+ * Elysia WebSocket 에러 컨텍스트 타입
+ */
+interface LiveLintErrorContext {
+  error: unknown;
+}
+
+/**
+ * 연결 ID별 실시간 린트 세션
+ */
+const sessions = new Map<string, LiveLintSession>();
+
+/**
+ * 연결 시 세션 생성
+ *
+ * @param ws - WebSocket 연결
+ */
+export function handleLiveLintOpen(ws: LiveLintSocket): void {
+  sessions.set(
+    ws.id,
+    new LiveLintSession((message) => {
+      ws.send(message);
+    }),
+  );
+
+  logger.debug('Live lint session opened', { id: ws.id });
+}
+
+/**
+ * 클라이언트 메시지 처리 (open: 세션 설정, update: 문서 린트)
+ *
+ * @param ws - WebSocket 연결
+ * @param message - 스키마 검증을 통과한 클라이언트 메시지
+ */
+export async function handleLiveLintMessage(
+  ws: LiveLintSocket,
+  message: LiveLintClientMessage,
+): Promise<void> {
+  const session = sessions.get(ws.id);
+  if (!session) {
+    return;
+  }
+
+  if (message.type === 'open') {
+    await session.open(message.syntax, message.config);
+  } else {
+    await session.update(message.version, message.code);
+  }
+}
+
+/**
+ * 연결 종료 시 진행 중인 린트를 취소하고 세션 삭제
+ *
+ * @param ws - WebSocket 연결
+ */
+export function handleLiveLintClose(ws: LiveLintSocket): void {
+  sessions.get(ws.id)?.close();
+  sessions.delete(ws.id);
+
+  logger.debug('Live lint session closed', { id: ws.id });
+}
+
+/**
+ * 메시지 스키마 검증 실패 등 WebSocket 처리 에러를 error 메시지로 변환
+ *
+ * @returns 클라이언트로 보낼 error 메시지
+ */
+export function handleLiveLintError({
+  error,
+}: LiveLintErrorContext): LiveLintServerMessage {
+  if (error instanceof SchemaValidationError) {
+    return {
+      type: 'error',
+      message: LIVE_LINT_ERRORS.INVALID_MESSAGE,
+      code: 'VALIDATION_ERROR',
+    };
+  }
+
+  logger.error('Live lint error', {
+    message: error instanceof Error ? error.message : String(error),
+  });
+
+  return {
+    type: 'error',
+    message: MESSAGES.INTERNAL_ERROR,
+    code: 'INTERNAL_ERROR',
+  };
+}
@@ -0,0 +1,33 @@
+import { listPresets } from '../config/presets';
+import { PresetListResult } from '../types';
+import { MESSAGES } from '../constants';
+
+/**
+ * 프리셋 목록 요청 핸들러
+ * GET /presets 엔드포인트의 요청을 처리
+ *
+ * @returns 서버에 로드된 프리셋 목록
+ *
+ * @example
+ * ```typescript
+ * // 성공 응답:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     presets: [
+ *       { name: "strict", description: "...", extends: [], plugins: [], rules: {...} }
+ *     ]
+ *   }
+ * }
+ * ```
+ */
+export function handlePresetsRequest(): PresetListResult {
+  return {
+    success: true,
+    message: MESSAGES.SUCCESS,
+    content: {
+      presets: listPresets(),
+    },
+  };
+}
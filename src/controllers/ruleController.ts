@@ -0,0 +1,74 @@
+import { getRuleCatalog } from '../services/ruleCatalogService';
+import { RuleCatalogResult } from '../types';
+import { MESSAGES } from '../constants';
+import { logger } from '../utils/logger';
+import { toAppError } from '../errors';
+
+/**
+ * Elysia 컨텍스트 타입
+ */
+interface ElysiaContext {
+  set: {
+    status?: number | string;
+  };
+}
+
+/**
+ * 규칙 카탈로그 요청 핸들러
+ * GET /rules 엔드포인트의 요청을 처리
+ *
+ * @param context - Elysia 컨텍스트 (set 포함)
+ * @returns 규칙 카탈로그 또는 에러 응답
+ *
+ * @example
+ * ```typescript
+ * // 성공 응답:
+ * {
+ *   success: true,
+ *   message: "성공",
+ *   content: {
+ *     rules: [
+ *       {
+ *         name: "color-hex-length",
+ *         source: "stylelint",
+ *         url: "https://stylelint.io/user-guide/rules/color-hex-length",
+ *         fixable: true,
+ *         deprecated: false,
+ *         enabledByDefault: true,
+ *         enabledBy: ["stylelint-config-standard"]
+ *       }
+ *     ]
+ *   }
+ * }
+ * ```
+ */
+export async function handleRulesRequest(
+  context: ElysiaContext,
+): Promise<RuleCatalogResult> {
+  const { set } = context;
+
+  try {
+    return {
+      success: true,
+      message: MESSAGES.SUCCESS,
+      content: {
+        rules: await getRuleCatalog(),
+      },
+    };
+  } catch (error) {
+    const appError = toAppError(error);
+
+    logger.error('Rule catalog request failed', {
+      message: appError.message,
+      code: appError.code,
+    });
+
+    set.status = appError.statusCode;
+
+    return {
+      success: false,
+      message: appError.message,
+      content: null,
+    };
+  }
+}
@@ -65,6 +65,75 @@ export class ParseError extends AppError {
   }
 }
 
+/**
+ * 리소스 없음 에러 (404 Not Found)
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, HTTP_STATUS.NOT_FOUND, 'NOT_FOUND', context);
+  }
+}
+
+/**
+ * 린트 시간 초과 에러 (504 Gateway Timeout)
+ */
+export class TimeoutError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, HTTP_STATUS.GATEWAY_TIMEOUT, 'TIMEOUT_ERROR', context);
+  }
+}
+
+/**
+ * 린트 취소 에러 (409 Conflict)
+ * 같은 세션의 새 요청으로 대체되어 실행하지 않은 린트
+ */
+export class CancelledError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, HTTP_STATUS.CONFLICT, 'CANCELLED', context);
+  }
+}
+
+/**
+ * 서비스 과부하 에러 (503 Service Unavailable)
+ * 대기열이 가득 차 요청을 받을 수 없는 경우
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(
+      message,
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      'SERVICE_UNAVAILABLE',
+      context,
+    );
+  }
+}
+
+/**
+ * 워커 스레드 경계를 넘길 수 있도록 직렬화한 AppError
+ */
+export interface SerializedAppError {
+  message: string;
+  statusCode: number;
+  code: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * 에러 코드별 AppError 하위 클래스 (역직렬화 시 instanceof 검사 유지용)
+ */
+const ERROR_CLASSES: Record<
+  string,
+  new (message: string, context?: Record<string, unknown>) => AppError
+> = {
+  VALIDATION_ERROR: ValidationError,
+  LINT_ERROR: LintError,
+  PARSE_ERROR: ParseError,
+  NOT_FOUND: NotFoundError,
+  TIMEOUT_ERROR: TimeoutError,
+  CANCELLED: CancelledError,
+  SERVICE_UNAVAILABLE: ServiceUnavailableError,
+};
+
 /**
  * 에러가 AppError 인스턴스인지 확인하는 타입 가드
  */
@@ -86,3 +155,22 @@ export function toAppError(error: unknown): AppError {
 
   return new AppError(String(error));
 }
+
+/**
+ * 에러를 postMessage로 전달할 수 있는 객체로 변환
+ */
+export function serializeAppError(error: unknown): SerializedAppError {
+  const { message, statusCode, code, context } = toAppError(error);
+  return { message, statusCode, code, ...(context && { context }) };
+}
+
+/**
+ * 직렬화된 에러를 원래 종류의 AppError로 복원
+ */
+export function deserializeAppError(error: SerializedAppError): AppError {
+  const ErrorClass = ERROR_CLASSES[error.code];
+
+  return ErrorClass
+    ? new ErrorClass(error.message, error.context)
+    : new AppError(error.message, error.statusCode, error.code, error.context);
+}
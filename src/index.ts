@@ -3,11 +3,35 @@ import { cors } from '@elysiajs/cors';
 import { staticPlugin } from '@elysiajs/static';
 import figlet from 'figlet';
 import { swagger } from '@elysiajs/swagger';
-import { handleLintRequest } from './controllers/lintController';
+import {
+  handleLintBatchRequest,
+  handleLintChangedRequest,
+  handleLintRequest,
+} from './controllers/lintController';
+import {
+  handleCancelJobRequest,
+  handleCreateJobRequest,
+  handleJobStatusRequest,
+} from './controllers/jobController';
+import { handlePresetsRequest } from './controllers/presetController';
+import { handleRulesRequest } from './controllers/ruleController';
+import { handleCacheStatsRequest } from './controllers/cacheController';
+import {
+  handleLiveLintClose,
+  handleLiveLintError,
+  handleLiveLintMessage,
+  handleLiveLintOpen,
+} from './controllers/liveLintController';
 import { env } from './config/env';
 import { logger } from './utils/logger';
 import { rateLimiter } from './utils/rateLimiter';
-import { API_ROUTES, MESSAGES, SERVER_CONFIG, HTTP_STATUS } from './constants';
+import {
+  API_ROUTES,
+  MESSAGES,
+  SERVER_CONFIG,
+  HTTP_STATUS,
+  FORMATTING,
+} from './constants';
 
 function mergeHeaders(
   current: HTTPHeaders | undefined,
@@ -56,6 +80,22 @@ app.use(
           name: 'Lint',
           description: 'CSS 린팅 관련 API',
         },
+        {
+          name: 'Presets',
+          description: '서버 측 린트 프리셋',
+        },
+        {
+          name: 'Rules',
+          description: '사용 가능한 린트 규칙',
+        },
+        {
+          name: 'Jobs',
+          description: '비동기 린트 작업',
+        },
+        {
+          name: 'Cache',
+          description: '린트 결과 캐시',
+        },
       ],
     },
     exclude: [API_ROUTES.ROOT],
@@ -246,36 +286,358 @@ app.get(
   },
 );
 
+/**
+ * 린트 요청 공통 스키마
+ */
+const syntaxSchema = t.Union(
+  [
+    t.Literal('css'),
+    t.Literal('html'),
+    t.Literal('scss'),
+    t.Literal('sass'),
+    t.Literal('less'),
+  ],
+  {
+    description: 'CSS 문법 타입 (css, html, scss, sass, less)',
+  },
+);
+
+const lintConfigSchema = t.Object({
+  rules: t.Optional(
+    t.Record(
+      t.String(),
+      t.Any({
+        description: 'Stylelint 규칙 값',
+      }),
+      {
+        description:
+          'Stylelint 규칙 (프리셋 지정 시 생략 가능, 프리셋 규칙을 덮어씀)',
+      },
+    ),
+  ),
+  preset: t.Optional(
+    t.String({
+      description: '서버 측 프리셋 이름 (GET /presets 참고)',
+    }),
+  ),
+  extends: t.Optional(
+    t.Array(t.String(), {
+      description:
+        '기본 확장 설정 대신 사용할 목록 (서버 허용 목록 내 패키지만 가능)',
+    }),
+  ),
+  plugins: t.Optional(
+    t.Array(t.String(), {
+      description:
+        '기본 플러그인 대신 사용할 목록 (서버 허용 목록 내 패키지만 가능)',
+    }),
+  ),
+  outputStyle: t.Optional(
+    t.Union(
+      [
+        t.Literal('compact'),
+        t.Literal('nested'),
+        t.Literal('expanded'),
+        t.Literal('compressed'),
+      ],
+      {
+        description:
+          '출력 포맷 스타일 (compact, nested, expanded 또는 compressed)',
+      },
+    ),
+  ),
+  format: t.Optional(
+    t.Object(
+      {
+        indentSize: t.Optional(
+          t.Integer({
+            minimum: FORMATTING.MIN_INDENT_SIZE,
+            maximum: FORMATTING.MAX_INDENT_SIZE,
+            description: '들여쓰기 스페이스 수 (기본값: 2)',
+          }),
+        ),
+        useTabs: t.Optional(
+          t.Boolean({ description: '탭으로 들여쓰기 (기본값: false)' }),
+        ),
+        newline: t.Optional(
+          t.Union([t.Literal('lf'), t.Literal('crlf')], {
+            description: '줄바꿈 스타일 (기본값: lf)',
+          }),
+        ),
+        finalNewline: t.Optional(
+          t.Boolean({ description: '출력 끝에 줄바꿈 추가 (기본값: false)' }),
+        ),
+        quote: t.Optional(
+          t.Union(
+            [t.Literal('single'), t.Literal('double'), t.Literal('preserve')],
+            { description: '문자열 따옴표 선호 (기본값: preserve)' },
+          ),
+        ),
+      },
+      { description: '출력 포맷 옵션 (outputStyle 적용 시 사용)' },
+    ),
+  ),
+  fix: t.Optional(
+    t.Union([t.Boolean(), t.Literal('lax'), t.Literal('strict')], {
+      description:
+        '자동 수정 옵션 (true: 모두 수정, false: 수정하지 않음, lax/strict: Stylelint 수정 모드, 기본값: true)',
+    }),
+  ),
+  includeDiff: t.Optional(
+    t.Boolean({
+      description:
+        '원본 코드와 최종 출력의 unified diff 및 변경 구간 포함 여부 (기본값: false)',
+    }),
+  ),
+  reportNeedlessDisables: t.Optional(
+    t.Boolean({
+      description: '위반이 없는 구간의 비활성화 주석 보고 (기본값: false)',
+    }),
+  ),
+  reportInvalidScopeDisables: t.Optional(
+    t.Boolean({
+      description: '켜지지 않은 규칙의 비활성화 주석 보고 (기본값: false)',
+    }),
+  ),
+  reportDescriptionlessDisables: t.Optional(
+    t.Boolean({
+      description: '`-- 설명`이 없는 비활성화 주석 보고 (기본값: false)',
+    }),
+  ),
+  timeoutMs: t.Optional(
+    t.Integer({
+      minimum: 1,
+      description:
+        '린트 제한 시간 (ms, 서버 설정 LINT_TIMEOUT_MS를 넘으면 서버 설정 값 적용)',
+    }),
+  ),
+});
+
+/**
+ * 단일 린트 요청 본문 스키마 (POST /lint, POST /jobs 공통)
+ */
+const lintBodySchema = t.Object({
+  code: t.String({
+    description: '린트할 CSS 코드',
+    minLength: 1,
+  }),
+  syntax: syntaxSchema,
+  config: lintConfigSchema,
+});
+
+/**
+ * 린트 결과 리포트 포맷 쿼리 스키마
+ */
+const reportQuerySchema = t.Object({
+  format: t.Optional(
+    t.Union(
+      [
+        t.Literal('json'),
+        t.Literal('sarif'),
+        t.Literal('checkstyle'),
+        t.Literal('junit'),
+        t.Literal('github'),
+      ],
+      {
+        description:
+          '응답 리포트 포맷 (json, sarif, checkstyle, junit, github). 생략 시 Accept 헤더로 결정',
+      },
+    ),
+  ),
+});
+
+/**
+ * 실시간 린트 WebSocket 메시지 스키마
+ */
+const liveLintMessageSchema = t.Union([
+  t.Object({
+    type: t.Literal('open'),
+    syntax: syntaxSchema,
+    config: lintConfigSchema,
+  }),
+  t.Object({
+    type: t.Literal('update'),
+    version: t.Integer({
+      minimum: 0,
+      description: '문서 버전 (이전 update보다 커야 함)',
+    }),
+    code: t.String({
+      description: '문서 전체 코드',
+      maxLength: SERVER_CONFIG.MAX_BODY_SIZE,
+    }),
+  }),
+]);
+
+/**
+ * 비동기 린트 작업 경로 파라미터 스키마
+ */
+const jobParamsSchema = t.Object({
+  id: t.String({ description: '작업 ID' }),
+});
+
+// 프리셋 목록 엔드포인트
+app.get(API_ROUTES.PRESETS, handlePresetsRequest, {
+  detail: {
+    tags: ['Presets'],
+    summary: '린트 프리셋 목록',
+    description:
+      '서버 시작 시 로드된 린트 프리셋 목록을 반환합니다. POST /lint의 config.preset에 프리셋 이름을 지정할 수 있습니다.',
+  },
+});
+
+// 규칙 카탈로그 엔드포인트
+app.get(API_ROUTES.RULES, handleRulesRequest, {
+  detail: {
+    tags: ['Rules'],
+    summary: '사용 가능한 규칙 목록',
+    description:
+      '실행 중인 서버에서 사용할 수 있는 모든 규칙(Stylelint 코어 및 플러그인)과 출처 패키지, 문서 URL, 자동 수정/사용 중단 여부, 기본 확장 설정에서의 활성화 여부를 반환합니다.',
+  },
+});
+
+// 린트 결과 캐시 통계 엔드포인트
+app.get(API_ROUTES.CACHE, handleCacheStatsRequest, {
+  detail: {
+    tags: ['Cache'],
+    summary: '린트 결과 캐시 통계',
+    description:
+      '린트 결과 캐시의 적중/미스 횟수, 적중률, 저장된 결과 수와 용량을 반환합니다.',
+  },
+});
+
 // 린트 API 엔드포인트
 app.post(API_ROUTES.LINT, handleLintRequest, {
+  type: 'json',
+  body: lintBodySchema,
+  query: reportQuerySchema,
+  detail: {
+    tags: ['Lint'],
+    summary: 'CSS 코드 린팅',
+    description:
+      'CSS 코드를 분석하고 Stylelint 규칙에 따라 자동 수정 및 경고를 반환합니다. 같은 입력의 결과는 캐시에서 반환하며, ETag/If-None-Match를 지원합니다.',
+  },
+});
+
+// 배치 린트 API 엔드포인트
+app.post(API_ROUTES.LINT_BATCH, handleLintBatchRequest, {
   type: 'json',
   body: t.Object({
-    code: t.String({
-      description: '린트할 CSS 코드',
-      minLength: 1,
-    }),
-    syntax: t.Union([t.Literal('css'), t.Literal('html')], {
-      description: 'CSS 문법 타입 (css 또는 html)',
-    }),
-    config: t.Object({
-      rules: t.Record(
-        t.String(),
-        t.Any({
-          description: 'Stylelint 규칙 값',
+    files: t.Array(
+      t.Object({
+        path: t.String({
+          description: '파일 경로 (결과 키로 사용)',
         }),
-      ),
-      outputStyle: t.Optional(
-        t.Union([t.Literal('compact'), t.Literal('nested')], {
-          description: '출력 포맷 스타일 (compact 또는 nested)',
+        // 빈 코드는 해당 파일만 실패 처리하기 위해 서비스 레이어에서 검증
+        code: t.String({
+          description: '린트할 CSS 코드',
         }),
-      ),
-    }),
+        syntax: syntaxSchema,
+      }),
+      {
+        description: '린트할 파일 목록',
+        minItems: 1,
+      },
+    ),
+    config: lintConfigSchema,
   }),
+  query: reportQuerySchema,
   detail: {
     tags: ['Lint'],
-    summary: 'CSS 코드 린팅',
+    summary: '여러 파일 일괄 린팅',
+    description:
+      '여러 파일을 하나의 공통 설정으로 린트하고 파일 경로별 결과를 반환합니다. 한 파일의 실패가 다른 파일의 결과에 영향을 주지 않습니다.',
+  },
+});
+
+// 변경된 줄 린트 API 엔드포인트
+app.post(API_ROUTES.LINT_CHANGED, handleLintChangedRequest, {
+  type: 'json',
+  body: t.Object({
+    files: t.Array(
+      t.Object({
+        path: t.String({
+          description: '파일 경로 (결과 키, diff의 파일 이름과 대조)',
+        }),
+        code: t.String({
+          description: '변경 후 전체 CSS 코드',
+        }),
+        syntax: syntaxSchema,
+        changedLines: t.Optional(
+          t.Array(
+            t.Object({
+              start: t.Integer({ minimum: 1, description: '시작 줄' }),
+              end: t.Integer({ minimum: 1, description: '끝 줄 (포함)' }),
+            }),
+            { description: '추가/수정된 줄 범위 (지정하면 diff보다 우선)' },
+          ),
+        ),
+      }),
+      {
+        description: '린트할 파일 목록',
+        minItems: 1,
+      },
+    ),
+    diff: t.Optional(
+      t.String({
+        description:
+          '변경 내용을 담은 unified diff (changedLines가 없는 파일에 사용)',
+      }),
+    ),
+    config: lintConfigSchema,
+  }),
+  query: reportQuerySchema,
+  detail: {
+    tags: ['Lint'],
+    summary: '변경된 줄만 린팅',
+    description:
+      '파일 전체를 린트한 뒤 unified diff 또는 changedLines로 지정한 추가/수정된 줄의 경고만 반환합니다. 기존 코드의 경고는 제외하고 그 수를 요약에 표시합니다.',
+  },
+});
+
+// 비동기 린트 작업 생성 엔드포인트
+app.post(API_ROUTES.JOBS, handleCreateJobRequest, {
+  type: 'json',
+  body: lintBodySchema,
+  detail: {
+    tags: ['Jobs'],
+    summary: '비동기 린트 작업 생성',
+    description: `POST /lint와 같은 본문을 받아 작업을 큐에 넣고 작업 ID를 즉시 반환합니다(202). 큰 입력을 게이트웨이 타임아웃 없이 처리할 때 사용합니다. 대기 중인 작업이 ${env.JOB_MAX_PENDING}개를 넘으면 503을 반환합니다.`,
+  },
+});
+
+// 비동기 린트 작업 조회 엔드포인트
+app.get(API_ROUTES.JOB, handleJobStatusRequest, {
+  params: jobParamsSchema,
+  detail: {
+    tags: ['Jobs'],
+    summary: '비동기 린트 작업 상태 및 결과',
+    description: `작업 상태(queued, running, completed, failed, cancelled)와 완료 시 린트 결과를 반환합니다. 종료된 작업은 ${env.JOB_TTL_MS / (60 * 1000)}분 후(또는 종료된 작업이 ${env.JOB_MAX_FINISHED}개를 넘으면 오래된 순서로) 삭제됩니다.`,
+  },
+});
+
+// 비동기 린트 작업 취소 엔드포인트
+app.delete(API_ROUTES.JOB, handleCancelJobRequest, {
+  params: jobParamsSchema,
+  detail: {
+    tags: ['Jobs'],
+    summary: '비동기 린트 작업 취소',
+    description:
+      '대기 중인 작업은 실행하지 않고, 실행 중인 작업은 린트를 중단합니다. 이미 종료된 작업은 결과를 즉시 삭제합니다.',
+  },
+});
+
+// 실시간 린트 WebSocket 엔드포인트
+app.ws(API_ROUTES.LIVE_LINT, {
+  body: liveLintMessageSchema,
+  open: handleLiveLintOpen,
+  message: handleLiveLintMessage,
+  close: handleLiveLintClose,
+  error: handleLiveLintError,
+  detail: {
+    tags: ['Lint'],
+    summary: '실시간 린트 (WebSocket)',
     description:
-      'CSS 코드를 분석하고 Stylelint 규칙에 따라 자동 수정 및 경고를 반환합니다.',
+      'open 메시지로 문법과 설정을 지정한 뒤 update 메시지로 문서를 보내면 버전별 린트 결과를 받습니다. 새 버전이 도착하면 이전 버전의 린트는 취소됩니다.',
   },
 });
 
@@ -0,0 +1,44 @@
+/**
+ * Language Server Protocol 진입점 (stdio)
+ * 에디터(VS Code, Neovim 등)가 이 프로세스를 실행하고 stdin/stdout으로 LSP 메시지를 주고받음
+ *
+ * @example
+ * ```bash
+ * bun run src/lsp.ts
+ * ```
+ */
+import { join } from 'node:path';
+
+// stdout은 LSP 메시지 전용이므로 로거의 info/debug 출력도 stderr로 보냄
+console.info = console.error;
+console.debug = console.error;
+
+// 에디터는 보통 워크스페이스 폴더에서 서버를 실행하므로, 프리셋(presets/)과
+// Stylelint의 확장 설정/플러그인을 서버와 같은 위치에서 찾도록 저장소 루트로 이동
+process.chdir(join(import.meta.dir, '..'));
+
+const { LanguageServer } = await import('./services/languageServer');
+const { JsonRpcMessageReader, encodeJsonRpcMessage } =
+  await import('./utils/jsonRpc');
+
+const reader = new JsonRpcMessageReader();
+const server = new LanguageServer(
+  (message) => {
+    process.stdout.write(encodeJsonRpcMessage(message));
+  },
+  (code) => process.exit(code),
+);
+
+// 메시지를 받은 순서대로 처리 (initialize 완료 전에 다음 요청을 처리하지 않도록)
+let pending: Promise<void> = Promise.resolve();
+
+process.stdin.on('data', (chunk: Buffer) => {
+  for (const message of reader.push(chunk)) {
+    pending = pending.then(() => server.handle(message));
+  }
+});
+
+// 클라이언트가 exit 없이 연결을 끊은 경우 (받은 메시지는 모두 처리한 뒤 종료)
+process.stdin.on('end', () => {
+  void pending.then(() => process.exit(1));
+});
@@ -2,6 +2,10 @@ import { app } from './index';
 import { API_ROUTES } from './constants';
 import { logger } from './utils/logger';
 import { env } from './config/env';
+import { warmUpLinting } from './services/lintWorkerPool';
+
+// 기본 Stylelint 설정을 미리 해석하여 첫 요청의 지연을 줄임
+void warmUpLinting();
 
 app.listen(env.PORT, ({ hostname, port }) => {
   logger.info(`Elysia server running at http://${hostname}:${port}`);
@@ -0,0 +1,479 @@
+import { existsSync, statSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname, relative, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { lintBatch } from './lintService';
+import {
+  CliOptions,
+  CliReportFormat,
+  CssSyntax,
+  LintBatchFile,
+  LintBatchFileResult,
+  LintBatchResult,
+  LintBatchRunner,
+  LintRequest,
+  OutputStyle,
+  StylelintRuleValue,
+} from '../types';
+import {
+  API_ROUTES,
+  CLI,
+  CLI_ERRORS,
+  MESSAGES,
+  STYLELINT_CONSTANTS,
+} from '../constants';
+import { AppError, ValidationError, toAppError } from '../errors';
+import {
+  REPORTERS,
+  textReporter,
+  toBatchReportFiles,
+} from '../utils/reporters';
+
+/**
+ * glob 특수 문자 (없으면 패턴을 파일 경로로 취급)
+ */
+const GLOB_CHARACTERS = /[*?[\]{}!]/;
+
+/**
+ * 도움말
+ */
+const USAGE = `사용법: ${CLI.NAME} [옵션] <파일 glob...>
+
+옵션:
+  -p, --preset <이름>        서버 측 프리셋 (--rules와 함께 쓰면 규칙 파일이 덮어씀)
+  -r, --rules <파일>         규칙 파일 (JSON, { rules, extends, plugins } 또는 규칙 객체)
+  -o, --output-style <스타일> --fix 결과의 출력 스타일 (nested, expanded, compact, compressed)
+  -f, --format <포맷>        리포트 포맷 (${CLI.SUPPORTED_FORMATS.join(', ')}, 기본값: ${CLI.DEFAULT_FORMAT})
+      --fix                  자동 수정 결과를 파일에 다시 씀
+  -s, --server <URL>         원격 서버로 린트 (미지정 시 프로세스 내에서 린트)
+  -h, --help                 도움말 출력
+
+종료 코드:
+  ${CLI.EXIT_CODES.SUCCESS}  오류 없음 (warning 심각도의 경고만 있는 경우 포함)
+  ${CLI.EXIT_CODES.LINT_ERRORS}  error 심각도의 경고 또는 린트에 실패한 파일이 있음
+  ${CLI.EXIT_CODES.FATAL}  잘못된 인수, 설정 오류, 원격 서버 요청 실패
+`;
+
+/**
+ * 명령줄 클라이언트 입출력 (테스트에서 교체)
+ */
+export interface CliIO {
+  /** 상대 경로 기준 디렉터리 (기본값: process.cwd()) */
+  cwd?: string;
+  /** 리포트 출력 (기본값: process.stdout) */
+  stdout?: (text: string) => void;
+  /** 에러 출력 (기본값: process.stderr) */
+  stderr?: (text: string) => void;
+}
+
+/**
+ * 명령줄 인수를 옵션 정의에 따라 분리
+ */
+function parseRawArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      rules: { type: 'string', short: 'r' },
+      'output-style': { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      fix: { type: 'boolean' },
+      server: { type: 'string', short: 's' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * 값이 지원하는 리포트 포맷인지 확인
+ */
+function isCliReportFormat(value: string): value is CliReportFormat {
+  return (CLI.SUPPORTED_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 명령줄 인수 파싱
+ * 출력 스타일은 린트 설정 검증에서 확인하므로 여기서는 리포트 포맷만 검증
+ *
+ * @param argv - 실행 파일 이름을 제외한 인수
+ * @returns 명령줄 클라이언트 옵션
+ * @throws {ValidationError} 알 수 없는 옵션, 잘못된 포맷, 패턴 누락
+ *
+ * @example
+ * ```typescript
+ * parseCliArgs(['--fix', '-f', 'github', 'src/**\/*.scss']);
+ * // { patterns: ['src/**\/*.scss'], fix: true, format: 'github', ... }
+ * ```
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed: ReturnType<typeof parseRawArgs>;
+
+  try {
+    parsed = parseRawArgs(argv);
+  } catch (error) {
+    throw new ValidationError(CLI_ERRORS.INVALID_ARGUMENTS, {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const { values, positionals } = parsed;
+  const format = values.format ?? CLI.DEFAULT_FORMAT;
+  const help = values.help ?? false;
+
+  if (!isCliReportFormat(format)) {
+    throw new ValidationError(CLI_ERRORS.INVALID_FORMAT, {
+      format,
+      supportedFormats: CLI.SUPPORTED_FORMATS,
+    });
+  }
+
+  if (!help && positionals.length === 0) {
+    throw new ValidationError(CLI_ERRORS.NO_PATTERNS);
+  }
+
+  return {
+    patterns: positionals,
+    preset: values.preset,
+    rulesFile: values.rules,
+    outputStyle: values['output-style'] as OutputStyle | undefined,
+    format,
+    fix: values.fix ?? false,
+    server: values.server,
+    help,
+  };
+}
+
+/**
+ * 규칙 파일 읽기
+ * `{ rules, extends, plugins }` 형식이면 세 필드를, 아니면 파일 전체를 규칙 객체로 사용
+ */
+async function readRulesFile(
+  path: string,
+): Promise<Pick<LintRequest['config'], 'rules' | 'extends' | 'plugins'>> {
+  if (!existsSync(path)) {
+    throw new ValidationError(CLI_ERRORS.RULES_FILE_NOT_FOUND, { path });
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf8'));
+  } catch {
+    throw new ValidationError(CLI_ERRORS.INVALID_RULES_FILE, { path });
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError(CLI_ERRORS.INVALID_RULES_FILE, { path });
+  }
+
+  if (!('rules' in raw)) {
+    return { rules: raw as Record<string, StylelintRuleValue> };
+  }
+
+  const {
+    rules,
+    extends: configExtends,
+    plugins,
+  } = raw as Pick<LintRequest['config'], 'rules' | 'extends' | 'plugins'>;
+
+  return {
+    rules,
+    ...(configExtends !== undefined && { extends: configExtends }),
+    ...(plugins !== undefined && { plugins }),
+  };
+}
+
+/**
+ * 옵션으로 린트 설정 생성
+ * 프리셋과 규칙 파일을 모두 지정하지 않으면 기본 프리셋 사용
+ *
+ * @param options - 명령줄 클라이언트 옵션
+ * @param cwd - 규칙 파일 상대 경로의 기준 디렉터리
+ * @returns 모든 파일에 공통으로 적용할 린트 설정
+ * @throws {ValidationError} 규칙 파일이 없거나 JSON 객체가 아닌 경우
+ */
+export async function loadCliConfig(
+  options: CliOptions,
+  cwd: string,
+): Promise<LintRequest['config']> {
+  const rulesConfig = options.rulesFile
+    ? await readRulesFile(resolve(cwd, options.rulesFile))
+    : {};
+  const preset =
+    options.preset ?? (options.rulesFile ? undefined : CLI.DEFAULT_PRESET);
+
+  return {
+    ...rulesConfig,
+    ...(preset && { preset }),
+    // 파일에 다시 쓰므로 포맷팅한 출력도 줄바꿈으로 끝나도록 함
+    ...(options.outputStyle && {
+      outputStyle: options.outputStyle,
+      format: { finalNewline: true },
+    }),
+    // --fix가 아니면 원본 코드의 모든 문제를 보고
+    fix: options.fix,
+  };
+}
+
+/**
+ * 경로가 무시할 디렉터리 안에 있는지 확인
+ */
+function isIgnoredPath(path: string): boolean {
+  const ignored: readonly string[] = CLI.IGNORED_DIRECTORIES;
+  return path.split(/[\\/]/).some((segment) => ignored.includes(segment));
+}
+
+/**
+ * glob 패턴과 일치하는 린트 대상 파일 수집
+ * 확장자로 문법을 정하며, 지원하지 않는 확장자와 빈 파일, node_modules 등은 제외
+ *
+ * @param patterns - glob 패턴 또는 파일 경로
+ * @param cwd - 패턴의 기준 디렉터리
+ * @returns 경로 순으로 정렬된 파일 목록 (경로는 cwd 기준 상대 경로)
+ */
+export async function collectCliFiles(
+  patterns: string[],
+  cwd: string,
+): Promise<LintBatchFile[]> {
+  const paths = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!GLOB_CHARACTERS.test(pattern)) {
+      const absolutePath = resolve(cwd, pattern);
+      if (existsSync(absolutePath) && statSync(absolutePath).isFile()) {
+        paths.add(relative(cwd, absolutePath));
+      }
+      continue;
+    }
+
+    for await (const path of new Bun.Glob(pattern).scan({
+      cwd,
+      onlyFiles: true,
+    })) {
+      paths.add(path);
+    }
+  }
+
+  const extensionSyntax: Record<string, CssSyntax | undefined> =
+    CLI.EXTENSION_SYNTAX;
+  const files: LintBatchFile[] = [];
+
+  for (const path of [...paths].sort()) {
+    const syntax = extensionSyntax[extname(path).toLowerCase()];
+    if (!syntax || isIgnoredPath(path)) {
+      continue;
+    }
+
+    const code = await readFile(resolve(cwd, path), 'utf8');
+    if (code.trim() === '') {
+      continue;
+    }
+
+    files.push({ path: path.split(sep).join('/'), code, syntax });
+  }
+
+  return files;
+}
+
+/**
+ * 원격 서버의 POST /lint/batch로 린트하는 실행 함수 생성
+ *
+ * @param serverUrl - 서버 기본 URL (예: http://localhost:5002)
+ * @returns 배치 린트 실행 함수
+ * @throws {AppError} 서버에 연결할 수 없거나 요청이 실패한 경우 (실행 함수 호출 시)
+ */
+export function createRemoteBatchRunner(serverUrl: string): LintBatchRunner {
+  const url = `${serverUrl.replace(/\/+$/, '')}${API_ROUTES.LINT_BATCH}`;
+
+  return async (request) => {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+    } catch (error) {
+      throw new AppError(
+        CLI_ERRORS.REMOTE_REQUEST_FAILED,
+        undefined,
+        'REMOTE_ERROR',
+        { url, reason: error instanceof Error ? error.message : String(error) },
+      );
+    }
+
+    const body = (await response.json().catch(() => null)) as
+      | (LintBatchResult & { context?: Record<string, unknown> })
+      | null;
+
+    if (!response.ok || !body?.success) {
+      throw new AppError(
+        body?.message ?? CLI_ERRORS.REMOTE_REQUEST_FAILED,
+        response.status,
+        'REMOTE_ERROR',
+        { url, status: response.status, ...body?.context },
+      );
+    }
+
+    return body;
+  };
+}
+
+/**
+ * 파일을 배치 요청 크기로 나누어 차례로 린트하고 결과를 합침
+ *
+ * @param files - 린트할 파일 목록
+ * @param config - 공통 린트 설정
+ * @param runner - 배치 린트 실행 함수
+ * @returns 모든 파일의 결과를 합친 배치 결과
+ */
+export async function lintCliFiles(
+  files: LintBatchFile[],
+  config: LintRequest['config'],
+  runner: LintBatchRunner,
+): Promise<LintBatchResult> {
+  const results: Record<string, LintBatchFileResult> = {};
+
+  for (
+    let start = 0;
+    start < files.length;
+    start += STYLELINT_CONSTANTS.MAX_BATCH_FILES
+  ) {
+    const batch = await runner({
+      files: files.slice(start, start + STYLELINT_CONSTANTS.MAX_BATCH_FILES),
+      config,
+    });
+    Object.assign(results, batch.content?.results);
+  }
+
+  const failed = Object.values(results).filter(
+    (result) => !result.success,
+  ).length;
+
+  return {
+    success: true,
+    message: MESSAGES.SUCCESS,
+    content: {
+      results,
+      summary: {
+        total: files.length,
+        succeeded: files.length - failed,
+        failed,
+      },
+    },
+  };
+}
+
+/**
+ * 자동 수정으로 바뀐 파일을 다시 씀
+ *
+ * @returns 다시 쓴 파일 경로 목록
+ */
+async function writeFixedFiles(
+  files: LintBatchFile[],
+  results: Record<string, LintBatchFileResult>,
+  cwd: string,
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const file of files) {
+    const output = results[file.path]?.content?.output;
+
+    if (output !== undefined && output !== file.code) {
+      await writeFile(resolve(cwd, file.path), output);
+      written.push(file.path);
+    }
+  }
+
+  return written;
+}
+
+/**
+ * 배치 결과를 리포트 포맷으로 직렬화
+ */
+function formatCliReport(
+  format: CliReportFormat,
+  results: Record<string, LintBatchFileResult>,
+  result: LintBatchResult,
+): string {
+  if (format === 'json') {
+    return `${JSON.stringify(result, null, 2)}\n`;
+  }
+
+  const toolVersion =
+    Object.values(results).find((fileResult) => fileResult.content)?.content
+      ?.info.version ?? 'unknown';
+  const serialize = format === 'text' ? textReporter : REPORTERS[format];
+
+  return serialize(toBatchReportFiles(results), toolVersion);
+}
+
+/**
+ * 명령줄 클라이언트 실행
+ * 파일을 프로세스 내 lintCode 또는 원격 서버로 린트하여 리포트를 출력하고,
+ * --fix이면 자동 수정 결과를 파일에 다시 씀
+ *
+ * @param argv - 실행 파일 이름을 제외한 인수
+ * @param io - 입출력 (기본값: 현재 프로세스)
+ * @returns 종료 코드 (CLI.EXIT_CODES)
+ *
+ * @example
+ * ```typescript
+ * const exitCode = await runCli(['--fix', 'src/**\/*.css']);
+ * process.exit(exitCode);
+ * ```
+ */
+export async function runCli(argv: string[], io: CliIO = {}): Promise<number> {
+  const cwd = io.cwd ?? process.cwd();
+  const stdout = io.stdout ?? ((text) => void process.stdout.write(text));
+  const stderr = io.stderr ?? ((text) => void process.stderr.write(text));
+
+  try {
+    const options = parseCliArgs(argv);
+    if (options.help) {
+      stdout(USAGE);
+      return CLI.EXIT_CODES.SUCCESS;
+    }
+
+    const config = await loadCliConfig(options, cwd);
+    const files = await collectCliFiles(options.patterns, cwd);
+    if (files.length === 0) {
+      throw new ValidationError(CLI_ERRORS.NO_FILES, {
+        patterns: options.patterns,
+      });
+    }
+
+    const runner: LintBatchRunner = options.server
+      ? createRemoteBatchRunner(options.server)
+      : (request) => lintBatch(request);
+    const result = await lintCliFiles(files, config, runner);
+    const results = result.content?.results ?? {};
+
+    if (options.fix) {
+      for (const path of await writeFixedFiles(files, results, cwd)) {
+        stderr(`수정됨: ${path}\n`);
+      }
+    }
+
+    stdout(formatCliReport(options.format, results, result));
+
+    const hasErrors = Object.values(results).some(
+      (fileResult) => !fileResult.success || fileResult.content?.errored,
+    );
+    return hasErrors ? CLI.EXIT_CODES.LINT_ERRORS : CLI.EXIT_CODES.SUCCESS;
+  } catch (error) {
+    const appError = toAppError(error);
+
+    stderr(`${CLI.NAME}: ${appError.message}\n`);
+    if (appError.context) {
+      stderr(`${JSON.stringify(appError.context, null, 2)}\n`);
+    }
+
+    return CLI.EXIT_CODES.FATAL;
+  }
+}
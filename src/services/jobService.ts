@@ -0,0 +1,305 @@
+import { nanoid } from 'nanoid';
+import { validateLintRequest } from './lintService';
+import { lintInWorker } from './lintWorkerPool';
+import { LintJob, LintRequest, LintResult } from '../types';
+import { JOB_ERRORS, JOBS } from '../constants';
+import { env } from '../config/env';
+import { NotFoundError, ServiceUnavailableError, toAppError } from '../errors';
+import { logger } from '../utils/logger';
+
+/**
+ * 취소 신호를 받는 작업 실행 함수
+ */
+export type LintJobRunner = (
+  request: LintRequest,
+  signal: AbortSignal,
+) => Promise<LintResult>;
+
+/**
+ * 큐에 보관되는 작업 항목
+ */
+interface LintJobEntry {
+  /** 응답으로 노출되는 작업 정보 */
+  job: LintJob;
+  /** 실행 대기 중인 요청 (실행이 시작되면 메모리 절약을 위해 제거) */
+  request?: LintRequest;
+  /** 종료 시각 (ms, TTL 계산용) */
+  finishedAt?: number;
+  /** 작업 취소 시 실행 중인 린트를 중단하는 컨트롤러 */
+  controller: AbortController;
+}
+
+/**
+ * 메모리 기반 비동기 린트 작업 큐
+ * 동시 실행 수를 제한하고, 종료된 작업은 TTL이 지나거나 보관 한도를 넘으면 정리
+ */
+export class LintJobQueue {
+  private jobs = new Map<string, LintJobEntry>();
+  private pending: string[] = [];
+  /** 종료된 작업 ID (종료된 순서) */
+  private finished = new Set<string>();
+  private running = 0;
+  private readonly runner: LintJobRunner;
+  private readonly concurrency: number;
+  private readonly ttlMs: number;
+  private readonly maxPending: number;
+  private readonly maxFinished: number;
+
+  /**
+   * @param runner - 작업 실행 함수 (기본값: 워커 풀)
+   * @param concurrency - 동시에 실행할 최대 작업 수
+   * @param ttlMs - 종료된 작업 결과를 보관하는 시간 (밀리초)
+   * @param maxPending - 실행을 기다릴 수 있는 최대 작업 수
+   * @param maxFinished - 결과를 보관하는 최대 종료 작업 수 (초과 시 오래된 작업부터 삭제)
+   */
+  constructor(
+    runner: LintJobRunner = lintInWorker,
+    concurrency: number = env.JOB_CONCURRENCY,
+    ttlMs: number = env.JOB_TTL_MS,
+    maxPending: number = env.JOB_MAX_PENDING,
+    maxFinished: number = env.JOB_MAX_FINISHED,
+  ) {
+    this.runner = runner;
+    this.concurrency = concurrency;
+    this.ttlMs = ttlMs;
+    this.maxPending = maxPending;
+    this.maxFinished = maxFinished;
+
+    // 만료된 작업 정리 (타이머가 프로세스 종료를 막지 않도록 unref)
+    setInterval(() => this.cleanup(), JOBS.CLEANUP_INTERVAL_MS).unref();
+  }
+
+  /**
+   * 작업을 큐에 추가하고 즉시 반환
+   * @param request - 실행할 린트 요청
+   * @returns 생성된 작업
+   * @throws {ServiceUnavailableError} 대기 중인 작업이 maxPending개를 넘은 경우
+   */
+  enqueue(request: LintRequest): LintJob {
+    if (this.pending.length >= this.maxPending) {
+      throw new ServiceUnavailableError(JOB_ERRORS.QUEUE_FULL, {
+        maxPending: this.maxPending,
+      });
+    }
+
+    const job: LintJob = {
+      id: nanoid(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(job.id, {
+      job,
+      request,
+      controller: new AbortController(),
+    });
+    this.pending.push(job.id);
+    this.drain();
+
+    return { ...job };
+  }
+
+  /**
+   * 작업 조회
+   * @param id - 작업 ID
+   * @returns 작업 (없거나 만료된 경우 undefined)
+   */
+  get(id: string): LintJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry && { ...entry.job };
+  }
+
+  /**
+   * 작업 취소
+   * 대기 중인 작업은 실행되지 않으며, 실행 중인 작업은 린트를 중단하고 결과를 버림.
+   * 이미 종료된 작업은 결과를 즉시 삭제
+   *
+   * @param id - 작업 ID
+   * @returns 취소 또는 삭제된 작업 (없거나 만료된 경우 undefined)
+   */
+  cancel(id: string): LintJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const { job } = entry;
+
+    if (job.status === 'queued' || job.status === 'running') {
+      this.pending = this.pending.filter((pendingId) => pendingId !== id);
+      this.finish(entry, { status: 'cancelled' });
+      entry.controller.abort();
+    } else {
+      this.delete(id);
+    }
+
+    return { ...job };
+  }
+
+  /**
+   * 만료된 작업 정리
+   * @param now - 기준 시각 (ms)
+   */
+  cleanup(now: number = Date.now()): void {
+    for (const [id, entry] of this.jobs.entries()) {
+      if (
+        entry.finishedAt !== undefined &&
+        now >= entry.finishedAt + this.ttlMs
+      ) {
+        this.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 작업 삭제
+   */
+  private delete(id: string): void {
+    this.jobs.delete(id);
+    this.finished.delete(id);
+  }
+
+  /**
+   * 동시 실행 한도 내에서 대기 중인 작업 실행
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift() as string;
+      const entry = this.jobs.get(id);
+
+      if (entry?.request) {
+        const { request } = entry;
+        entry.request = undefined;
+        this.running++;
+
+        void this.run(entry, request).finally(() => {
+          this.running--;
+          this.drain();
+        });
+      }
+    }
+  }
+
+  /**
+   * 작업 실행 및 결과 기록
+   */
+  private async run(entry: LintJobEntry, request: LintRequest): Promise<void> {
+    const { job } = entry;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      const result = await this.runner(request, entry.controller.signal);
+
+      // 실행 중 취소된 작업은 결과를 버림
+      if (job.status === 'running') {
+        this.finish(entry, {
+          status: 'completed',
+          result: result.content ?? undefined,
+        });
+      }
+    } catch (error) {
+      // 취소로 중단된 린트는 이미 cancelled로 기록됨
+      if (job.status !== 'running') {
+        return;
+      }
+
+      const appError = toAppError(error);
+
+      logger.warn('Lint job failed', {
+        id: job.id,
+        code: appError.code,
+        message: appError.message,
+      });
+
+      this.finish(entry, {
+        status: 'failed',
+        error: {
+          message: appError.message,
+          code: appError.code,
+          ...(appError.context && { context: appError.context }),
+        },
+      });
+    }
+  }
+
+  /**
+   * 작업을 종료 상태로 전환하고 만료 시각 기록
+   * 종료된 작업이 보관 한도를 넘으면 가장 먼저 종료된 작업부터 삭제
+   */
+  private finish(
+    entry: LintJobEntry,
+    update: Pick<LintJob, 'status' | 'result' | 'error'>,
+  ): void {
+    const finishedAt = Date.now();
+
+    entry.request = undefined;
+    entry.finishedAt = finishedAt;
+    Object.assign(entry.job, update, {
+      finishedAt: new Date(finishedAt).toISOString(),
+      expiresAt: new Date(finishedAt + this.ttlMs).toISOString(),
+    });
+
+    this.finished.add(entry.job.id);
+    while (this.finished.size > this.maxFinished) {
+      this.delete(this.finished.values().next().value as string);
+    }
+  }
+}
+
+/**
+ * 싱글톤 린트 작업 큐
+ */
+export const lintJobQueue = new LintJobQueue();
+
+/**
+ * 비동기 린트 작업 생성
+ * 요청은 큐에 넣기 전에 검증하여 잘못된 입력은 즉시 거부
+ *
+ * @param request - POST /lint와 같은 형식의 린트 요청
+ * @returns 생성된 작업 (status: queued 또는 running)
+ * @throws {ValidationError} 유효하지 않은 입력 시
+ * @throws {ServiceUnavailableError} 대기열이 가득 찬 경우 (503)
+ */
+export async function createLintJob(request: LintRequest): Promise<LintJob> {
+  await validateLintRequest(request);
+
+  const job = lintJobQueue.enqueue(request);
+  logger.info('Lint job created', { id: job.id });
+
+  return job;
+}
+
+/**
+ * 비동기 린트 작업 조회
+ *
+ * @param id - 작업 ID
+ * @returns 작업 상태 및 결과
+ * @throws {NotFoundError} 작업이 없거나 만료된 경우
+ */
+export function getLintJob(id: string): LintJob {
+  const job = lintJobQueue.get(id);
+  if (!job) {
+    throw new NotFoundError(JOB_ERRORS.NOT_FOUND, { id });
+  }
+
+  return job;
+}
+
+/**
+ * 비동기 린트 작업 취소
+ *
+ * @param id - 작업 ID
+ * @returns 취소된 작업 (이미 종료된 작업이면 삭제 직전 상태)
+ * @throws {NotFoundError} 작업이 없거나 만료된 경우
+ */
+export function cancelLintJob(id: string): LintJob {
+  const job = lintJobQueue.cancel(id);
+  if (!job) {
+    throw new NotFoundError(JOB_ERRORS.NOT_FOUND, { id });
+  }
+
+  logger.info('Lint job cancelled', { id, status: job.status });
+
+  return job;
+}
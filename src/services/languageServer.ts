@@ -0,0 +1,453 @@
+import { formatOutput, lintCode, validateLintConfig } from './lintService';
+import {
+  CssSyntax,
+  FormatOptions,
+  JsonRpcError,
+  JsonRpcMessage,
+  LintRequest,
+  LintRunner,
+  LspCodeAction,
+  LspDiagnostic,
+  LspInitializationOptions,
+  LspRange,
+  LspTextEdit,
+  StylelintWarning,
+} from '../types';
+import { FORMATTING, LSP, LSP_ERRORS } from '../constants';
+import { toAppError } from '../errors';
+import { logger } from '../utils/logger';
+
+/**
+ * 서버가 관리하는 열린 문서
+ */
+interface LspDocument {
+  uri: string;
+  syntax: CssSyntax;
+  /** 클라이언트가 보낸 문서 버전 */
+  version: number;
+  text: string;
+}
+
+/**
+ * LSP 요청 파라미터에서 사용하는 필드
+ */
+interface LspRequestParams {
+  textDocument?: {
+    uri: string;
+    languageId?: string;
+    version?: number;
+    text?: string;
+  };
+  contentChanges?: Array<{ text: string }>;
+  context?: { only?: string[] };
+  options?: { tabSize?: number; insertSpaces?: boolean };
+  initializationOptions?: LspInitializationOptions;
+}
+
+/**
+ * JSON-RPC 에러 응답으로 변환할 에러
+ */
+class JsonRpcRequestError extends Error {
+  public readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * 문서 전체를 덮는 범위
+ */
+function getFullRange(text: string): LspRange {
+  const lines = text.split(/\r\n|\r|\n/);
+
+  return {
+    start: { line: 0, character: 0 },
+    end: { line: lines.length - 1, character: lines[lines.length - 1].length },
+  };
+}
+
+/**
+ * 에디터의 tabSize를 포맷 옵션이 허용하는 들여쓰기 범위로 맞춤
+ * 정수가 아니면 무시하여 설정의 indentSize(또는 기본값)를 사용
+ */
+function toIndentSize(tabSize: unknown): number | undefined {
+  if (typeof tabSize !== 'number' || !Number.isInteger(tabSize)) {
+    return undefined;
+  }
+
+  return Math.min(
+    Math.max(tabSize, FORMATTING.MIN_INDENT_SIZE),
+    FORMATTING.MAX_INDENT_SIZE,
+  );
+}
+
+/**
+ * Stylelint 경고를 LSP 진단으로 변환 (줄/열을 0부터 시작하도록 조정)
+ */
+function toDiagnostic(warning: StylelintWarning): LspDiagnostic {
+  const start = { line: warning.line - 1, character: warning.column - 1 };
+  const end =
+    warning.endLine !== undefined && warning.endColumn !== undefined
+      ? { line: warning.endLine - 1, character: warning.endColumn - 1 }
+      : start;
+
+  return {
+    range: { start, end },
+    severity: warning.severity === 'error' ? 1 : 2,
+    code: warning.rule,
+    ...(warning.url && { codeDescription: { href: warning.url } }),
+    source: LSP.DIAGNOSTIC_SOURCE,
+    message: warning.text,
+  };
+}
+
+/**
+ * 에러를 JSON-RPC 에러 객체로 변환
+ */
+function toJsonRpcError(error: unknown): JsonRpcError {
+  if (error instanceof JsonRpcRequestError) {
+    return { code: error.code, message: error.message };
+  }
+
+  const appError = toAppError(error);
+
+  return {
+    code: LSP.ERROR_CODES.REQUEST_FAILED,
+    message: appError.message,
+    data: {
+      code: appError.code,
+      ...(appError.context && { context: appError.context }),
+    },
+  };
+}
+
+/**
+ * Language Server Protocol 서버
+ * 열린 문서를 lintCode로 린트하여 진단을 발행하고, 자동 수정("모두 수정")
+ * 코드 액션과 문서 포맷팅을 제공. 전송 방식(stdio 등)은 send/exit로 주입
+ */
+export class LanguageServer {
+  private documents = new Map<string, LspDocument>();
+  private config: LintRequest['config'] = { preset: LSP.DEFAULT_PRESET };
+  private initialized = false;
+  private shuttingDown = false;
+  private readonly send: (message: JsonRpcMessage) => void;
+  private readonly exit: (code: number) => void;
+  private readonly lint: LintRunner;
+
+  /**
+   * @param send - 클라이언트로 메시지를 보내는 함수
+   * @param exit - exit 알림 시 호출 (shutdown 후면 0, 아니면 1)
+   * @param lint - 린트 실행 함수 (기본값: lintCode)
+   */
+  constructor(
+    send: (message: JsonRpcMessage) => void,
+    exit: (code: number) => void,
+    lint: LintRunner = (request) => lintCode(request),
+  ) {
+    this.send = send;
+    this.exit = exit;
+    this.lint = lint;
+  }
+
+  /**
+   * 클라이언트 메시지 처리
+   * 요청에는 결과 또는 에러로 응답하고, 알림은 응답하지 않음
+   *
+   * @param message - 받은 메시지 (JSON 파싱에 실패했으면 null)
+   */
+  async handle(message: JsonRpcMessage | null): Promise<void> {
+    if (!message) {
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: LSP.ERROR_CODES.PARSE_ERROR,
+          message: LSP_ERRORS.PARSE_ERROR,
+        },
+      });
+      return;
+    }
+
+    // 클라이언트의 응답 메시지 (서버는 요청을 보내지 않으므로 무시)
+    if (!message.method) {
+      return;
+    }
+
+    const isRequest = message.id !== undefined && message.id !== null;
+
+    try {
+      const result = await this.dispatch(
+        message.method,
+        (message.params ?? {}) as LspRequestParams,
+        isRequest,
+      );
+
+      if (isRequest) {
+        this.send({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+      }
+    } catch (error) {
+      if (isRequest) {
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: toJsonRpcError(error),
+        });
+      } else {
+        logger.warn('LSP notification failed', {
+          method: message.method,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * 메서드별 처리
+   */
+  private async dispatch(
+    method: string,
+    params: LspRequestParams,
+    isRequest: boolean,
+  ): Promise<unknown> {
+    if (method === 'initialize') {
+      return this.initialize(params);
+    }
+    if (method === 'exit') {
+      this.exit(this.shuttingDown ? 0 : 1);
+      return undefined;
+    }
+    if (!this.initialized) {
+      if (isRequest) {
+        throw new JsonRpcRequestError(
+          LSP.ERROR_CODES.SERVER_NOT_INITIALIZED,
+          LSP_ERRORS.NOT_INITIALIZED,
+        );
+      }
+      return undefined;
+    }
+
+    switch (method) {
+      case 'shutdown':
+        this.shuttingDown = true;
+        return null;
+      case 'textDocument/didOpen':
+        return this.openDocument(params);
+      case 'textDocument/didChange':
+        return this.changeDocument(params);
+      case 'textDocument/didClose':
+        return this.closeDocument(params);
+      case 'textDocument/codeAction':
+        return this.codeActions(params);
+      case 'textDocument/formatting':
+        return this.formatDocument(params);
+      default:
+        // 알 수 없는 알림(initialized, $/cancelRequest 등)은 무시
+        if (isRequest) {
+          throw new JsonRpcRequestError(
+            LSP.ERROR_CODES.METHOD_NOT_FOUND,
+            `${LSP_ERRORS.METHOD_NOT_FOUND}: ${method}`,
+          );
+        }
+        return undefined;
+    }
+  }
+
+  /**
+   * initialize 요청: 린트 설정 검증 후 서버 기능 반환
+   */
+  private async initialize(params: LspRequestParams): Promise<unknown> {
+    const config = params.initializationOptions?.config ?? this.config;
+    await validateLintConfig(config);
+
+    this.config = config;
+    this.initialized = true;
+
+    return {
+      capabilities: {
+        // 1: 변경 시 문서 전체 전송
+        textDocumentSync: { openClose: true, change: 1 },
+        codeActionProvider: { codeActionKinds: [LSP.FIX_ALL_KIND] },
+        documentFormattingProvider: true,
+      },
+      serverInfo: { name: LSP.SERVER_NAME },
+    };
+  }
+
+  /**
+   * textDocument/didOpen 알림: 지원하는 언어의 문서만 추적하고 진단 발행
+   */
+  private async openDocument(params: LspRequestParams): Promise<void> {
+    const item = params.textDocument;
+    const syntax = (
+      LSP.LANGUAGE_SYNTAX as Record<string, CssSyntax | undefined>
+    )[item?.languageId ?? ''];
+
+    if (!item || !syntax) {
+      return;
+    }
+
+    this.documents.set(item.uri, {
+      uri: item.uri,
+      syntax,
+      version: item.version ?? 0,
+      text: item.text ?? '',
+    });
+    await this.publishDiagnostics(item.uri);
+  }
+
+  /**
+   * textDocument/didChange 알림: 문서 전체 내용으로 교체하고 진단 발행
+   */
+  private async changeDocument(params: LspRequestParams): Promise<void> {
+    const document = this.documents.get(params.textDocument?.uri ?? '');
+    const change = params.contentChanges?.at(-1);
+
+    if (!document || !change) {
+      return;
+    }
+
+    document.version = params.textDocument?.version ?? document.version + 1;
+    document.text = change.text;
+    await this.publishDiagnostics(document.uri);
+  }
+
+  /**
+   * textDocument/didClose 알림: 문서 추적을 멈추고 진단 제거
+   */
+  private closeDocument(params: LspRequestParams): void {
+    const uri = params.textDocument?.uri ?? '';
+
+    if (this.documents.delete(uri)) {
+      this.send({
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri, diagnostics: [] },
+      });
+    }
+  }
+
+  /**
+   * 문서를 자동 수정 없이 린트하여 진단 발행
+   * 린트 중 문서가 바뀌었거나 닫혔으면 이전 버전의 진단은 보내지 않음
+   */
+  private async publishDiagnostics(uri: string): Promise<void> {
+    const document = this.documents.get(uri);
+    if (!document) {
+      return;
+    }
+
+    const { version, text, syntax } = document;
+    let diagnostics: LspDiagnostic[] = [];
+
+    try {
+      const result = await this.lint({
+        code: text,
+        syntax,
+        config: { ...this.config, fix: false },
+      });
+      diagnostics = (result.content?.warnings ?? []).map(toDiagnostic);
+    } catch (error) {
+      // 빈 문서 등 린트할 수 없는 문서는 진단을 비움
+      logger.debug('LSP lint skipped', {
+        uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.documents.get(uri)?.version !== version) {
+      return;
+    }
+
+    this.send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, version, diagnostics },
+    });
+  }
+
+  /**
+   * textDocument/codeAction 요청: 자동 수정 결과로 문서 전체를 바꾸는 "모두 수정" 액션
+   */
+  private async codeActions(
+    params: LspRequestParams,
+  ): Promise<LspCodeAction[]> {
+    const document = this.documents.get(params.textDocument?.uri ?? '');
+    const only = params.context?.only;
+
+    // 요청한 종류가 "모두 수정"을 포함하지 않으면 제공하지 않음
+    if (
+      !document ||
+      (only && !only.some((kind) => LSP.FIX_ALL_KIND.startsWith(kind)))
+    ) {
+      return [];
+    }
+
+    const { uri, version, text, syntax } = document;
+    const result = await this.lint({
+      code: text,
+      syntax,
+      config: {
+        ...this.config,
+        fix: this.config.fix || true,
+        outputStyle: undefined,
+        includeDiff: false,
+      },
+    });
+    const output = result.content?.output;
+
+    if (output === undefined || output === text) {
+      return [];
+    }
+
+    return [
+      {
+        title: LSP.FIX_ALL_TITLE,
+        kind: LSP.FIX_ALL_KIND,
+        edit: {
+          documentChanges: [
+            {
+              textDocument: { uri, version },
+              edits: [{ range: getFullRange(text), newText: output }],
+            },
+          ],
+        },
+      },
+    ];
+  }
+
+  /**
+   * textDocument/formatting 요청: 설정의 outputStyle(기본값 nested)로 문서 포맷팅
+   * 에디터의 들여쓰기 설정(tabSize, insertSpaces)을 포맷 옵션보다 우선 적용
+   * (tabSize는 config.format.indentSize와 같은 범위로 제한)
+   */
+  private formatDocument(params: LspRequestParams): LspTextEdit[] {
+    const document = this.documents.get(params.textDocument?.uri ?? '');
+    if (!document) {
+      return [];
+    }
+
+    const { text, syntax } = document;
+    const indentSize = toIndentSize(params.options?.tabSize);
+    const format: FormatOptions = {
+      ...this.config.format,
+      ...(indentSize !== undefined && { indentSize }),
+      ...(params.options?.insertSpaces !== undefined && {
+        useTabs: !params.options.insertSpaces,
+      }),
+    };
+    const { output } = formatOutput(
+      text,
+      this.config.outputStyle ?? LSP.DEFAULT_OUTPUT_STYLE,
+      syntax,
+      format,
+    );
+
+    return output === text
+      ? []
+      : [{ range: getFullRange(text), newText: output }];
+  }
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'node:crypto';
+import { normalizeRuleNames } from '../config/stylelint';
+import { env } from '../config/env';
+import { LRUCache } from '../utils/lruCache';
+import { stableStringify } from '../utils/stableStringify';
+import { LintCacheStats, LintRequest, LintResult } from '../types';
+import stylelintPackage from 'stylelint/package.json' assert { type: 'json' };
+
+const STYLELINT_VERSION = stylelintPackage.version ?? 'unknown';
+
+/**
+ * 린트 결과 캐시 (싱글톤)
+ * 워커 풀 사용 시 메인 스레드에서만 사용됨.
+ * 결과에 포맷팅된 출력이 포함되어 입력 크기에 비례하므로 결과 수와 함께
+ * 직렬화한 JSON 크기로도 제한
+ */
+export const lintResultCache = new LRUCache<LintResult>(
+  env.LINT_CACHE_SIZE,
+  env.LINT_CACHE_TTL_MS,
+  env.LINT_CACHE_MAX_BYTES,
+  (result) => Buffer.byteLength(JSON.stringify(result)),
+);
+
+/**
+ * 린트 요청의 캐시 키 생성
+ * 코드, 문법, 정규화된 규칙, 출력 스타일 등 결과에 영향을 주는 설정과
+ * Stylelint 버전의 해시이므로 같은 입력이면 같은 키가 나옴
+ * (결과에 영향을 주지 않는 timeoutMs는 제외)
+ *
+ * @param request - 린트 요청
+ * @returns SHA-256 16진수 문자열
+ *
+ * @example
+ * ```typescript
+ * createLintCacheKey({
+ *   code: 'a { color: #FFF; }',
+ *   syntax: 'css',
+ *   config: { rules: { 'color-hex-case': 'lower' } },
+ * });
+ * // 'c1f4...' (64자)
+ * ```
+ */
+export function createLintCacheKey(request: LintRequest): string {
+  const { code, syntax, config } = request;
+  const { rules = {}, timeoutMs: _timeoutMs, ...options } = config;
+
+  return createHash('sha256')
+    .update(
+      stableStringify({
+        version: STYLELINT_VERSION,
+        code,
+        syntax,
+        rules: normalizeRuleNames(rules),
+        options,
+      }),
+    )
+    .digest('hex');
+}
+
+/**
+ * 린트 결과 캐시 통계 조회
+ *
+ * @returns 적중/미스 횟수, 적중률, 용량 정보
+ */
+export function getLintCacheStats(): LintCacheStats {
+  const stats = lintResultCache.stats();
+  const lookups = stats.hits + stats.misses;
+
+  return {
+    ...stats,
+    hitRate: lookups === 0 ? 0 : stats.hits / lookups,
+  };
+}
@@ -1,25 +1,75 @@
 import styleLint from 'stylelint';
 import type { LinterResult } from 'stylelint';
 import postcss from 'postcss';
+import type { Parser, Root } from 'postcss';
+import postcssScss from 'postcss-scss';
+import postcssLess from 'postcss-less';
 import {
   LintOptions,
+  FixMode,
+  FixOption,
   LintResult,
   LintRequest,
+  LintBatchRequest,
+  LintBatchResult,
+  LintBatchFileResult,
+  LintChangedRequest,
+  LintChangedResult,
+  LintChangedFileResult,
+  LintResultContent,
+  LintResultInfo,
+  LintPreset,
+  StylelintConfig,
+  LineRange,
+  LintRunner,
   CssSyntax,
   OutputStyle,
+  FormatOptions,
   StylelintWarning,
+  StylelintInvalidOptionWarning,
+  StylelintDeprecation,
+  StylelintParseError,
   StylelintRuleValue,
+  RuleIssue,
+  DisableReport,
+  DisableReportType,
 } from '../types';
-import { createStylelintConfig } from '../config/stylelint';
-import { compactFormatter, nestedFormatter } from '../utils/formatters';
+import { createStylelintConfig, RULE_NAME_ALIASES } from '../config/stylelint';
+import { getPreset } from '../config/presets';
+import { env } from '../config/env';
+import {
+  CssFormatter,
+  compactFormatter,
+  compressedFormatter,
+  expandedFormatter,
+  nestedFormatter,
+} from '../utils/formatters';
+import {
+  createLintDiff,
+  isLineInRanges,
+  parseChangedLines,
+} from '../utils/diff';
+import { formatHtmlStyleBlocks } from '../utils/htmlFormatter';
+import { getKnownRuleNames } from './ruleCatalogService';
+import { createLintCacheKey, lintResultCache } from './lintCacheService';
+import { resolveStylelintConfig } from './stylelintConfigService';
 import { logger } from '../utils/logger';
 import {
   validateCode,
   validateSyntax,
   validateRules,
   validateOutputStyle,
+  validateFormatOptions,
+  validateFixOption,
+  validateBooleanOption,
+  validateTimeout,
+  validateAllowedPackages,
+  validateBatchFiles,
+  validateLineRanges,
+  findUnknownRules,
+  assertNoRuleIssues,
 } from '../utils/validation';
-import { LintError, ParseError } from '../errors';
+import { LintError, ParseError, ValidationError, toAppError } from '../errors';
 import { MESSAGES, VALIDATION_ERRORS } from '../constants';
 import stylelintPackage from 'stylelint/package.json' assert { type: 'json' };
 
@@ -28,13 +78,123 @@ import stylelintPackage from 'stylelint/package.json' assert { type: 'json' };
  */
 const STYLELINT_VERSION = stylelintPackage.version ?? 'unknown';
 
+/**
+ * 출력 포맷팅에 사용할 문법별 PostCSS 파서
+ * - html: 문서 전체가 아닌 <style> 블록만 포맷팅 (formatHtmlStyleBlocks)
+ * - sass: 들여쓰기 기반 문법이라 중괄호 기반 포맷터를 적용하지 않음
+ */
+const FORMAT_PARSER_MAP: Record<CssSyntax, Parser<Root> | undefined> = {
+  css: postcss.parse,
+  html: undefined,
+  scss: postcssScss.parse,
+  sass: undefined,
+  less: postcssLess.parse,
+};
+
+/**
+ * 출력 스타일별 포맷터
+ */
+const OUTPUT_FORMATTERS: Record<OutputStyle, CssFormatter> = {
+  compact: compactFormatter,
+  nested: nestedFormatter,
+  expanded: expandedFormatter,
+  compressed: compressedFormatter,
+};
+
+/**
+ * 비활성화 주석 보고 요청 옵션
+ */
+const DISABLE_REPORT_OPTIONS = [
+  'reportNeedlessDisables',
+  'reportInvalidScopeDisables',
+  'reportDescriptionlessDisables',
+] as const;
+
+/**
+ * Stylelint가 비활성화 주석 문제를 경고로 보고할 때 사용하는 규칙 이름 → 보고 유형
+ */
+const DISABLE_REPORT_RULES: Record<string, DisableReportType> = {
+  '--report-needless-disables': 'needless',
+  '--report-invalid-scope-disables': 'invalid-scope',
+  '--report-descriptionless-disables': 'descriptionless',
+};
+
+/**
+ * 비활성화 주석 보고 메시지에서 규칙 이름을 추출하는 패턴
+ * 예: Needless disable for "color-named"
+ */
+const DISABLE_REPORT_RULE_PATTERN = /"([^"]+)"/;
+
+/**
+ * Stylelint 옵션 경고에서 규칙 이름을 추출하는 패턴
+ * 예: Invalid option value "bogus" for rule "color-hex-length"
+ */
+const INVALID_OPTION_RULE_PATTERN = /for rule "([^"]+)"/;
+
+/**
+ * 린트 설정 유효성 검증
+ * 단일 린트, 배치 린트와 실시간 린트 세션이 공유하는 설정 항목을 검증
+ *
+ * @param config - 검증할 린트 설정
+ * @throws {ValidationError} 유효하지 않은 설정 시
+ */
+export async function validateLintConfig(
+  config: LintRequest['config'],
+): Promise<void> {
+  // 규칙 검증 (프리셋을 지정한 경우 규칙 생략 가능)
+  if (config.preset !== undefined) {
+    // 존재하지 않는 프리셋이면 ValidationError
+    getPreset(config.preset);
+    validateRules(config.rules ?? {}, true);
+  } else {
+    validateRules(config.rules);
+  }
+
+  // 출력 스타일 검증 (선택적)
+  validateOutputStyle(config.outputStyle);
+
+  // 출력 포맷 옵션 검증 (선택적)
+  validateFormatOptions(config.format);
+
+  // 자동 수정 옵션 검증 (선택적)
+  validateFixOption(config.fix);
+
+  // diff 포함 옵션 검증 (선택적)
+  validateBooleanOption(config.includeDiff, 'includeDiff');
+
+  // 비활성화 주석 보고 옵션 검증 (선택적)
+  for (const option of DISABLE_REPORT_OPTIONS) {
+    validateBooleanOption(config[option], option);
+  }
+
+  // 제한 시간 검증 (선택적, 서버 상한은 실행 시 적용)
+  validateTimeout(config.timeoutMs);
+
+  // extends/plugins 허용 목록 검증 (선택적)
+  validateAllowedPackages(config.extends, env.ALLOWED_EXTENDS, 'extends');
+  validateAllowedPackages(config.plugins, env.ALLOWED_PLUGINS, 'plugins');
+
+  // 설치되지 않은 규칙 이름 검증 (오타 시 비슷한 이름 제안)
+  // 카탈로그를 만들 수 없으면 검증을 건너뛰고 Stylelint의 옵션 경고에 맡김
+  const knownRuleNames = await getKnownRuleNames().catch((error: unknown) => {
+    logger.warn('Rule catalog unavailable, skipping unknown rule check', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  });
+
+  if (knownRuleNames) {
+    assertNoRuleIssues(findUnknownRules(config.rules ?? {}, knownRuleNames));
+  }
+}
+
 /**
  * 린트 요청 유효성 검증
  *
  * @param request - 검증할 린트 요청 객체
  * @throws {ValidationError} 유효하지 않은 입력 시
  */
-function validateLintRequest(request: LintRequest): void {
+export async function validateLintRequest(request: LintRequest): Promise<void> {
   const { code, syntax, config } = request;
 
   // 코드 검증
@@ -43,20 +203,37 @@ function validateLintRequest(request: LintRequest): void {
   // 문법 검증
   validateSyntax(syntax);
 
-  // 규칙 검증
-  validateRules(config.rules);
+  // 설정 검증
+  await validateLintConfig(config);
+}
+
+/**
+ * 요청의 자동 수정 옵션을 수정 모드로 정규화
+ * Stylelint는 fix: true를 'lax' 모드로 처리함
+ *
+ * @param fix - 요청의 자동 수정 옵션 (기본값: true)
+ * @returns 적용할 자동 수정 모드
+ */
+function resolveFixMode(fix: FixOption = true): FixMode {
+  if (fix === false) {
+    return 'off';
+  }
 
-  // 출력 스타일 검증 (선택적)
-  validateOutputStyle(config.outputStyle);
+  return fix === true ? 'lax' : fix;
 }
 
 /**
  * Stylelint 결과에서 경고 목록을 안전하게 추출
+ * 규칙 메타데이터(문서 URL, 자동 수정 지원 여부)를 각 경고에 함께 담음
  *
  * @param lintResult - Stylelint 실행 결과
+ * @param fixMode - 적용된 자동 수정 모드
  * @returns 경고 목록 (없으면 빈 배열)
  */
-function extractWarnings(lintResult: LinterResult): StylelintWarning[] {
+function extractWarnings(
+  lintResult: LinterResult,
+  fixMode: FixMode,
+): StylelintWarning[] {
   if (!lintResult.results || lintResult.results.length === 0) {
     return [];
   }
@@ -66,7 +243,133 @@ function extractWarnings(lintResult: LinterResult): StylelintWarning[] {
     return [];
   }
 
-  return firstResult.warnings as StylelintWarning[];
+  const ruleMetadata = lintResult.ruleMetadata ?? {};
+
+  // 비활성화 주석 문제는 disableReports로 따로 반환
+  const ruleWarnings = firstResult.warnings.filter(
+    (warning) => !(warning.rule in DISABLE_REPORT_RULES),
+  );
+
+  return ruleWarnings.map((warning): StylelintWarning => {
+    const meta = ruleMetadata[warning.rule];
+    const fixable = meta?.fixable === true;
+    const url = warning.url ?? meta?.url;
+
+    return {
+      line: warning.line,
+      column: warning.column,
+      ...(warning.endLine !== undefined && { endLine: warning.endLine }),
+      ...(warning.endColumn !== undefined && {
+        endColumn: warning.endColumn,
+      }),
+      rule: warning.rule,
+      severity: warning.severity,
+      text: warning.text,
+      ...(url && { url }),
+      fixable,
+      // 자동 수정이 켜진 경우 수정된 경고는 결과에서 제외되므로 남은 경고는 수정 불가
+      autofixable: fixMode === 'off' && fixable,
+    };
+  });
+}
+
+/**
+ * Stylelint 결과에서 비활성화 주석 문제 추출
+ *
+ * @param lintResult - Stylelint 실행 결과
+ * @returns 비활성화 주석 문제 목록 (보고 옵션을 켜지 않았으면 빈 배열)
+ */
+function extractDisableReports(lintResult: LinterResult): DisableReport[] {
+  return (lintResult.results[0]?.warnings ?? []).flatMap(
+    (warning): DisableReport[] => {
+      const type = DISABLE_REPORT_RULES[warning.rule];
+      if (!type) {
+        return [];
+      }
+
+      return [
+        {
+          type,
+          rule: DISABLE_REPORT_RULE_PATTERN.exec(warning.text)?.[1] ?? 'all',
+          line: warning.line,
+          column: warning.column,
+          ...(warning.endLine !== undefined && { endLine: warning.endLine }),
+          ...(warning.endColumn !== undefined && {
+            endColumn: warning.endColumn,
+          }),
+          text: warning.text,
+        },
+      ];
+    },
+  );
+}
+
+/**
+ * Stylelint 결과에서 잘못된 규칙 옵션 경고 추출
+ *
+ * @param lintResult - Stylelint 실행 결과
+ * @returns 옵션 경고 목록 (규칙 이름을 알 수 있으면 함께 포함)
+ */
+function extractInvalidOptionWarnings(
+  lintResult: LinterResult,
+): StylelintInvalidOptionWarning[] {
+  return (lintResult.results[0]?.invalidOptionWarnings ?? []).map(
+    ({ text }) => {
+      const rule = INVALID_OPTION_RULE_PATTERN.exec(text)?.[1];
+      return { text, ...(rule && { rule }) };
+    },
+  );
+}
+
+/**
+ * Stylelint 결과에서 사용 중단 알림 추출
+ *
+ * @param lintResult - Stylelint 실행 결과
+ * @returns 사용 중단 알림 목록
+ */
+function extractDeprecations(lintResult: LinterResult): StylelintDeprecation[] {
+  return (lintResult.results[0]?.deprecations ?? []).map(
+    ({ text, reference }) => ({ text, ...(reference && { reference }) }),
+  );
+}
+
+/**
+ * Stylelint 결과에서 린트를 중단하지 않은 파싱 오류 추출
+ *
+ * @param lintResult - Stylelint 실행 결과
+ * @returns 파싱 오류 목록
+ */
+function extractParseErrors(lintResult: LinterResult): StylelintParseError[] {
+  return (lintResult.results[0]?.parseErrors ?? []).map((parseError) => ({
+    ...(parseError.line !== undefined && { line: parseError.line }),
+    ...(parseError.column !== undefined && { column: parseError.column }),
+    text: parseError.text,
+  }));
+}
+
+/**
+ * 옵션 경고 중 요청 규칙에 해당하는 항목을 규칙 설정 오류로 변환
+ * 프리셋/확장 설정에서 온 옵션 경고는 요청자가 고칠 수 없으므로 제외
+ *
+ * @param invalidOptionWarnings - Stylelint 옵션 경고 목록
+ * @param rules - 요청에 지정한 규칙
+ * @returns 옵션이 잘못된 요청 규칙 목록
+ */
+function findInvalidOptionRules(
+  invalidOptionWarnings: StylelintInvalidOptionWarning[],
+  rules: Record<string, StylelintRuleValue>,
+): RuleIssue[] {
+  // 정규화된 규칙 이름 → 요청에 지정한 이름
+  const requestedNames = new Map(
+    Object.keys(rules).map((rule) => [RULE_NAME_ALIASES[rule] ?? rule, rule]),
+  );
+
+  return invalidOptionWarnings.flatMap(({ text, rule }): RuleIssue[] => {
+    const requestedName = rule && requestedNames.get(rule);
+    return requestedName
+      ? [{ rule: requestedName, reason: 'invalid-option', message: text }]
+      : [];
+  });
 }
 
 /**
@@ -121,31 +424,45 @@ function normalizeHexCase(
 
 /**
  * CSS 출력 포맷팅
+ * 린트 결과 출력과 LSP 문서 포맷팅이 공유
  *
- * @param lintedCode - Stylelint로 수정된 CSS 코드
- * @param outputStyle - 출력 스타일 ('compact' | 'nested')
+ * @param lintedCode - 포맷팅할 CSS 코드 (보통 Stylelint로 수정된 코드)
+ * @param outputStyle - 출력 스타일 ('compact' | 'nested' | 'expanded' | 'compressed')
  * @param syntax - CSS 문법 타입
- * @returns 포맷팅된 CSS 문자열
+ * @param format - 들여쓰기, 줄바꿈, 따옴표 등 포맷 옵션
+ * @returns 포맷팅된 코드 (HTML인 경우 다시 포맷팅된 <style> 블록 수 포함)
  * @throws {ParseError} 파싱 오류 시
  */
-function formatOutput(
+export function formatOutput(
   lintedCode: string,
   outputStyle: OutputStyle | undefined,
   syntax: CssSyntax,
-): string {
-  // HTML 문법이거나 출력 스타일이 지정되지 않은 경우 원본 반환
-  if (syntax === 'html' || !outputStyle) {
-    return lintedCode;
+  format: FormatOptions = {},
+): { output: string; formattedStyleBlocks?: number } {
+  if (!outputStyle) {
+    return { output: lintedCode };
   }
 
   try {
-    const root = postcss.parse(lintedCode);
+    // HTML은 <style> 블록만 제자리에서 포맷팅
+    if (syntax === 'html') {
+      const { output, formattedBlocks } = formatHtmlStyleBlocks(
+        lintedCode,
+        OUTPUT_FORMATTERS[outputStyle],
+        format,
+      );
+      return { output, formattedStyleBlocks: formattedBlocks };
+    }
 
-    if (outputStyle === 'nested') {
-      return nestedFormatter(root);
-    } else {
-      return compactFormatter(root);
+    // 포맷팅을 지원하지 않는 문법인 경우 원본 반환
+    const parse = FORMAT_PARSER_MAP[syntax];
+    if (!parse) {
+      return { output: lintedCode };
     }
+
+    const root = parse(lintedCode);
+
+    return { output: OUTPUT_FORMATTERS[outputStyle](root, format) };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error('CSS parsing failed', { error: errorMessage });
@@ -155,8 +472,10 @@ function formatOutput(
 
 /**
  * CSS 코드 린트 실행
+ * 같은 입력의 성공 결과는 캐시에서 바로 반환
  *
  * @param request - 린트 요청 객체
+ * @param options - cache: false이면 결과 캐시를 사용하지 않음 (워커 스레드용)
  * @returns 린트 결과 (성공/실패, 경고, 포맷팅된 코드 포함)
  * @throws {ValidationError} 입력 유효성 검사 실패 시
  * @throws {LintError} 린트 실행 오류 시
@@ -168,71 +487,142 @@ function formatOutput(
  *   syntax: 'css',
  *   config: {
  *     rules: { 'color-hex-case': 'lower' },
- *     outputStyle: 'nested'
+ *     outputStyle: 'nested',
+ *     fix: 'strict'
  *   }
  * });
  * ```
  */
-export async function lintCode(request: LintRequest): Promise<LintResult> {
+export async function lintCode(
+  request: LintRequest,
+  options: { cache?: boolean } = {},
+): Promise<LintResult> {
   // 입력 유효성 검증
-  validateLintRequest(request);
+  await validateLintRequest(request);
+
+  // 같은 입력의 결과가 캐시에 있으면 린트 없이 반환
+  const cacheKey =
+    options.cache !== false && lintResultCache.enabled
+      ? createLintCacheKey(request)
+      : undefined;
+  const cached = cacheKey && lintResultCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
 
   const { code, syntax, config } = request;
-  const { rules, outputStyle } = config;
-
-  // Stylelint 설정 생성
-  const stylelintConfig = createStylelintConfig(rules, syntax);
-  const options: LintOptions = {
-    code,
-    config: stylelintConfig,
-    fix: true,
-  };
+  const { rules = {}, outputStyle } = config;
+  const fixMode = resolveFixMode(config.fix);
+  const preset = config.preset ? getPreset(config.preset) : undefined;
+
+  // Stylelint 설정 생성 (프리셋 규칙 위에 요청 규칙을 덮어씀)
+  const stylelintConfig = createStylelintConfig(rules, syntax, {
+    preset,
+    extends: config.extends,
+    plugins: config.plugins,
+  });
 
   try {
+    // 규칙/문법 조합별로 한 번만 해석한 설정 사용 (extends/plugins를 다시 읽지 않음)
+    const resolveStartedAt = performance.now();
+    const resolution = await resolveStylelintConfig(stylelintConfig);
+    const resolveMs = performance.now() - resolveStartedAt;
+
+    const lintOptions: LintOptions = {
+      code,
+      // Stylelint가 전달받은 설정 객체를 수정하므로 캐시된 설정은 복사해서 전달
+      config: { ...resolution.config },
+      fix: fixMode === 'off' ? false : fixMode,
+      reportNeedlessDisables: config.reportNeedlessDisables,
+      reportInvalidScopeDisables: config.reportInvalidScopeDisables,
+      reportDescriptionlessDisables: config.reportDescriptionlessDisables,
+    };
+
     logger.debug('Running Stylelint', {
       syntax,
-      rulesCount: Object.keys(rules).length,
+      preset: preset?.name,
+      rulesCount: Object.keys(stylelintConfig.rules).length,
       outputStyle,
+      fixMode,
     });
 
     // Stylelint 실행
-    const lintResult: LinterResult = await styleLint.lint(options);
-
-    // 경고 추출
-    const warnings = extractWarnings(lintResult);
+    const lintStartedAt = performance.now();
+    const lintResult: LinterResult = await styleLint.lint(lintOptions);
+    const lintMs = performance.now() - lintStartedAt;
+
+    logger.debug('Stylelint finished', {
+      configCached: resolution.cached,
+      resolveMs: Math.round(resolveMs),
+      lintMs: Math.round(lintMs),
+    });
 
-    // 출력 포맷팅
-    const lintedCode = normalizeHexCase(
-      extractFixedCode(lintResult, code),
-      stylelintConfig.rules,
-    );
-    const formattedOutput = formatOutput(lintedCode, outputStyle, syntax);
+    // 요청 규칙의 옵션 오류는 린트 결과 대신 ValidationError로 보고
+    const invalidOptionWarnings = extractInvalidOptionWarnings(lintResult);
+    assertNoRuleIssues(findInvalidOptionRules(invalidOptionWarnings, rules));
+
+    // 경고 및 설정/파싱 진단 추출
+    const warnings = extractWarnings(lintResult, fixMode);
+    const deprecations = extractDeprecations(lintResult);
+    const parseErrors = extractParseErrors(lintResult);
+    const disableReports = extractDisableReports(lintResult);
+    const errored = lintResult.results[0]?.errored ?? lintResult.errored;
+
+    // 출력 포맷팅 (자동 수정을 끈 경우 원본 코드를 그대로 반환)
+    const { output: formattedOutput, formattedStyleBlocks } =
+      fixMode === 'off'
+        ? { output: code }
+        : formatOutput(
+            normalizeHexCase(
+              extractFixedCode(lintResult, code),
+              stylelintConfig.rules,
+            ),
+            outputStyle,
+            syntax,
+            config.format,
+          );
+
+    // 원본과 최종 출력의 diff 생성 (선택적)
+    const diff = config.includeDiff
+      ? createLintDiff(code, formattedOutput)
+      : undefined;
 
     logger.info('Lint completed successfully', {
       warningsCount: warnings.length,
+      errored,
       outputLength: formattedOutput.length,
     });
 
-    // 성공 결과 반환
-    return {
+    const result: LintResult = {
       success: true,
       message: MESSAGES.SUCCESS,
       content: {
         warnings,
+        errored,
+        invalidOptionWarnings,
+        deprecations,
+        parseErrors,
+        disableReports,
         output: formattedOutput,
-        info: {
-          version: STYLELINT_VERSION,
-          config: {
-            extends: stylelintConfig.extends,
-            plugins: stylelintConfig.plugins,
-            customSyntax: stylelintConfig.customSyntax,
-          },
-        },
+        ...(formattedStyleBlocks !== undefined && { formattedStyleBlocks }),
+        ...(diff && { diff }),
+        info: createResultInfo(stylelintConfig, fixMode, preset),
       },
     };
+
+    // 성공 결과만 캐시하여 반환
+    if (cacheKey) {
+      lintResultCache.set(cacheKey, result);
+    }
+
+    return result;
   } catch (error) {
     // ValidationError, ParseError는 그대로 전파
-    if (error instanceof LintError || error instanceof ParseError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof LintError ||
+      error instanceof ParseError
+    ) {
       throw error;
     }
 
@@ -250,3 +640,275 @@ export async function lintCode(request: LintRequest): Promise<LintResult> {
     throw new LintError(errorMessage);
   }
 }
+
+/**
+ * 린트 결과의 버전 및 설정 정보 생성
+ */
+function createResultInfo(
+  stylelintConfig: StylelintConfig,
+  fixMode: FixMode,
+  preset?: LintPreset,
+): LintResultInfo {
+  return {
+    version: STYLELINT_VERSION,
+    fix: fixMode,
+    config: {
+      extends: stylelintConfig.extends,
+      plugins: stylelintConfig.plugins,
+      customSyntax: stylelintConfig.customSyntax,
+      ...(preset && { preset: preset.name }),
+    },
+  };
+}
+
+/**
+ * 빈 문서의 린트 결과 내용 생성
+ * lintCode는 빈 코드를 거부하지만, 편집 중인 문서는 비어 있을 수 있으므로
+ * Stylelint를 실행하지 않고 경고가 없는 결과를 반환
+ *
+ * @param request - 린트 요청 (code는 비어 있거나 공백만 있음)
+ * @returns 경고가 없고 원본 코드를 그대로 출력하는 린트 결과 내용
+ * @throws {ValidationError} 존재하지 않는 프리셋인 경우
+ */
+export function createEmptyLintContent(
+  request: LintRequest,
+): LintResultContent {
+  const { code, syntax, config } = request;
+  const preset = config.preset ? getPreset(config.preset) : undefined;
+  const stylelintConfig = createStylelintConfig(config.rules ?? {}, syntax, {
+    preset,
+    extends: config.extends,
+    plugins: config.plugins,
+  });
+
+  return {
+    warnings: [],
+    errored: false,
+    invalidOptionWarnings: [],
+    deprecations: [],
+    parseErrors: [],
+    disableReports: [],
+    output: code,
+    info: createResultInfo(stylelintConfig, resolveFixMode(config.fix), preset),
+  };
+}
+
+/**
+ * 여러 파일을 하나의 요청으로 린트
+ * 공통 설정은 한 번만 검증하고, 파일별 실패는 해당 파일 결과에만 기록하여
+ * 하나의 깨진 파일이 나머지 파일의 린트를 막지 않도록 함
+ * 파일은 runner에 동시에 전달되므로 워커 풀 사용 시 여러 워커에 분배됨
+ *
+ * @param request - 배치 린트 요청 객체
+ * @param runner - 파일별 린트 실행 함수 (기본값: lintCode)
+ * @returns 파일 경로별 린트 결과와 요약
+ * @throws {ValidationError} 파일 목록 또는 공통 설정이 유효하지 않은 경우
+ *
+ * @example
+ * ```typescript
+ * const result = await lintBatch({
+ *   files: [
+ *     { path: 'a.css', code: 'a { color: #FFF; }', syntax: 'css' },
+ *     { path: 'b.html', code: '<style>b {}</style>', syntax: 'html' },
+ *   ],
+ *   config: { rules: { 'color-hex-case': 'lower' } },
+ * });
+ * ```
+ */
+export async function lintBatch(
+  request: LintBatchRequest,
+  runner: LintRunner = lintCode,
+): Promise<LintBatchResult> {
+  const { files, config } = request;
+
+  validateBatchFiles(files);
+  await validateLintConfig(config);
+
+  const fileResults = await Promise.all(
+    files.map(async (file): Promise<LintBatchFileResult> => {
+      try {
+        return await runner({
+          code: file.code,
+          syntax: file.syntax,
+          config,
+        });
+      } catch (error) {
+        const appError = toAppError(error);
+
+        logger.warn('Batch file lint failed', {
+          path: file.path,
+          code: appError.code,
+          message: appError.message,
+        });
+
+        return {
+          success: false,
+          message: appError.message,
+          content: null,
+          ...(appError.context && { context: appError.context }),
+        };
+      }
+    }),
+  );
+
+  // 결과는 요청한 파일 순서대로 기록
+  const results: Record<string, LintBatchFileResult> = {};
+  files.forEach((file, index) => {
+    results[file.path] = fileResults[index];
+  });
+  const failed = fileResults.filter((result) => !result.success).length;
+
+  logger.info('Batch lint completed', {
+    total: files.length,
+    failed,
+  });
+
+  return {
+    success: true,
+    message: MESSAGES.SUCCESS,
+    content: {
+      results,
+      summary: {
+        total: files.length,
+        succeeded: files.length - failed,
+        failed,
+      },
+    },
+  };
+}
+
+/**
+ * 변경된 줄에서 시작하는 경고와 비활성화 주석 문제만 남김
+ * errored도 남은 항목 기준으로 다시 계산 (설정/파싱 오류는 그대로 반영)
+ */
+function keepChangedLineWarnings(
+  content: LintResultContent,
+  changedLines: LineRange[],
+): LintResultContent {
+  const warnings = content.warnings.filter((warning) =>
+    isLineInRanges(warning.line, changedLines),
+  );
+  const disableReports = content.disableReports.filter((report) =>
+    isLineInRanges(report.line, changedLines),
+  );
+
+  return {
+    ...content,
+    warnings,
+    disableReports,
+    errored:
+      warnings.some((warning) => warning.severity === 'error') ||
+      content.invalidOptionWarnings.length > 0 ||
+      content.parseErrors.length > 0 ||
+      disableReports.length > 0,
+  };
+}
+
+/**
+ * 변경된 줄 린트에서 세는 경고 수 (경고와 비활성화 주석 문제)
+ */
+function countChangedLineWarnings(
+  content: LintResultContent | null | undefined,
+): number {
+  return (
+    (content?.warnings.length ?? 0) + (content?.disableReports.length ?? 0)
+  );
+}
+
+/**
+ * 패치에서 변경된 줄의 경고만 남기는 배치 린트
+ * 파일 전체를 평소처럼 린트한 뒤, 추가/수정된 줄에서 시작하는 경고만 남기고
+ * 나머지는 기존 코드의 경고로 보아 제외한 수만 기록. 파일별 changedLines가
+ * diff보다 우선하며, diff에 없는 파일은 변경된 줄이 없는 것으로 처리
+ *
+ * @param request - 변경된 줄 린트 요청 객체 (파일 내용은 변경 후 전체 내용)
+ * @param runner - 파일별 린트 실행 함수 (기본값: lintCode)
+ * @returns 파일 경로별 린트 결과와 제외한 경고 수를 포함한 요약
+ * @throws {ValidationError} 파일 목록, 줄 범위, diff 또는 공통 설정이 유효하지 않은 경우
+ *
+ * @example
+ * ```typescript
+ * const result = await lintChangedLines({
+ *   files: [{ path: 'a.css', code: 'a {\n  color: red;\n}', syntax: 'css' }],
+ *   diff: '--- a/a.css\n+++ b/a.css\n@@ -1,2 +1,3 @@\n a {\n+  color: red;\n }\n',
+ *   config: { rules: { 'color-named': 'never' } },
+ * });
+ * // result.content.summary: { ..., warnings: 1, filteredWarnings: 0 }
+ * ```
+ */
+export async function lintChangedLines(
+  request: LintChangedRequest,
+  runner: LintRunner = lintCode,
+): Promise<LintChangedResult> {
+  const { files, diff, config } = request;
+
+  validateBatchFiles(files);
+
+  const missingPaths = files
+    .filter((file) => !file.changedLines)
+    .map((file) => file.path);
+  if (!diff && missingPaths.length > 0) {
+    throw new ValidationError(VALIDATION_ERRORS.CHANGED_LINES_REQUIRED, {
+      paths: missingPaths,
+    });
+  }
+
+  for (const file of files) {
+    if (file.changedLines) {
+      validateLineRanges(file.changedLines, file.path);
+    }
+  }
+
+  const diffChangedLines = diff
+    ? parseChangedLines(diff)
+    : new Map<string, LineRange[]>();
+
+  const batch = await lintBatch(
+    {
+      files: files.map(({ path, code, syntax }) => ({ path, code, syntax })),
+      config,
+    },
+    runner,
+  );
+  const batchResults = batch.content?.results ?? {};
+
+  const results: Record<string, LintChangedFileResult> = {};
+  let keptCount = 0;
+  let filteredCount = 0;
+
+  for (const file of files) {
+    const result = batchResults[file.path];
+    const changedLines =
+      file.changedLines ?? diffChangedLines.get(file.path) ?? [];
+    const content =
+      result.content && keepChangedLineWarnings(result.content, changedLines);
+    const filteredWarnings =
+      countChangedLineWarnings(result.content) -
+      countChangedLineWarnings(content);
+
+    keptCount += countChangedLineWarnings(content);
+    filteredCount += filteredWarnings;
+    results[file.path] = { ...result, content, changedLines, filteredWarnings };
+  }
+
+  logger.info('Changed lines lint completed', {
+    total: files.length,
+    warnings: keptCount,
+    filteredWarnings: filteredCount,
+  });
+
+  return {
+    success: true,
+    message: MESSAGES.SUCCESS,
+    content: {
+      results,
+      summary: {
+        total: files.length,
+        succeeded: batch.content?.summary.succeeded ?? 0,
+        failed: batch.content?.summary.failed ?? 0,
+        warnings: keptCount,
+        filteredWarnings: filteredCount,
+      },
+    },
+  };
+}
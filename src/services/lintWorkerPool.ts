@@ -0,0 +1,413 @@
+import { lintCode } from './lintService';
+import { createLintCacheKey, lintResultCache } from './lintCacheService';
+import { warmStylelintConfigs } from './stylelintConfigService';
+import { warmRuleCatalog } from './ruleCatalogService';
+import { LintRequest, LintResult } from '../types';
+import { MESSAGES, VALIDATION_ERRORS } from '../constants';
+import { env } from '../config/env';
+import {
+  AppError,
+  CancelledError,
+  SerializedAppError,
+  TimeoutError,
+  deserializeAppError,
+} from '../errors';
+import { logger } from '../utils/logger';
+
+/**
+ * 린트 워커로 보내는 메시지
+ */
+export interface LintWorkerRequest {
+  request: LintRequest;
+}
+
+/**
+ * 린트 워커가 보내는 응답 메시지 (결과 또는 직렬화된 에러)
+ */
+export type LintWorkerResponse =
+  | { result: LintResult }
+  | { error: SerializedAppError };
+
+/**
+ * 워커에 전달할 대기 작업
+ */
+interface LintWorkerTask {
+  request: LintRequest;
+  resolve: (result: LintResult) => void;
+  reject: (error: AppError) => void;
+  /** 워커에서 실행할 수 있는 최대 시간 (ms) */
+  timeoutMs?: number;
+  /** 제한 시간 타이머 (워커에 전달된 후 설정) */
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 풀에 속한 워커와 실행 중인 작업
+ */
+interface PooledWorker {
+  worker: Worker;
+  task?: LintWorkerTask;
+}
+
+/**
+ * 린트 워커 스크립트 경로
+ */
+const LINT_WORKER_URL = new URL('../workers/lintWorker.ts', import.meta.url);
+
+/**
+ * 린트 제한 시간 초과 에러 생성
+ *
+ * @param timeoutMs - 적용된 제한 시간 (ms)
+ * @param startedAt - 실행 시작 시각 (ms)
+ */
+function createTimeoutError(
+  timeoutMs: number,
+  startedAt: number,
+): TimeoutError {
+  return new TimeoutError(VALIDATION_ERRORS.LINT_TIMEOUT, {
+    timeoutMs,
+    elapsedMs: Date.now() - startedAt,
+  });
+}
+
+/**
+ * Bun Worker 기반 린트 워커 풀
+ * 요청을 유휴 워커에 분배하고, 모든 워커가 바쁘면 요청 순서대로 대기시킴.
+ * 무거운 스타일시트가 메인 이벤트 루프(헬스 체크 등)를 막지 않도록 함
+ */
+export class LintWorkerPool {
+  private readonly workers: PooledWorker[] = [];
+  private queue: LintWorkerTask[] = [];
+  private readonly scriptUrl: URL;
+
+  /**
+   * @param size - 워커 수 (1 이상)
+   * @param scriptUrl - 워커 스크립트 경로
+   */
+  constructor(size: number, scriptUrl: URL = LINT_WORKER_URL) {
+    this.scriptUrl = scriptUrl;
+
+    for (let i = 0; i < size; i++) {
+      const pooled: PooledWorker = { worker: this.spawn() };
+      this.attach(pooled);
+      this.workers.push(pooled);
+    }
+  }
+
+  /**
+   * 워커 수
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * 린트 요청을 워커에서 실행
+   * 제한 시간은 워커에 전달된 시점부터 계산하며, 초과하면 워커를 종료하고
+   * 새 워커로 교체함 (대기열에서 기다린 시간은 포함하지 않음)
+   *
+   * 취소 신호가 오면 대기 중인 요청은 실행하지 않고, 이미 워커에서 실행 중인
+   * 요청은 제한 시간 초과와 같이 워커를 종료하고 새 워커로 교체함
+   *
+   * @param request - 린트 요청
+   * @param timeoutMs - 워커에서 실행할 수 있는 최대 시간 (ms, 생략 시 무제한)
+   * @param signal - 취소 신호 (선택사항)
+   * @returns 워커가 반환한 린트 결과
+   * @throws {TimeoutError} 제한 시간을 초과한 경우
+   * @throws {CancelledError} 취소된 경우
+   * @throws {AppError} 워커에서 발생한 에러 (원래 종류로 복원됨)
+   */
+  run(
+    request: LintRequest,
+    timeoutMs?: number,
+    signal?: AbortSignal,
+  ): Promise<LintResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError(MESSAGES.LINT_CANCELLED));
+        return;
+      }
+
+      // 작업이 끝나면 리스너를 제거하여 오래 쓰는 신호가 끝난 작업을 붙잡지 않게 함
+      const onAbort = () => this.cancel(task);
+      const task: LintWorkerTask = {
+        request,
+        timeoutMs,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      this.queue.push(task);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * 모든 워커 종료 (대기 중인 요청은 거부)
+   */
+  terminate(): void {
+    const error = new AppError(MESSAGES.WORKER_CRASHED);
+
+    for (const pooled of this.workers) {
+      clearTimeout(pooled.task?.timer);
+      pooled.task?.reject(error);
+      pooled.task = undefined;
+      pooled.worker.terminate();
+    }
+    for (const task of this.queue) {
+      task.reject(error);
+    }
+
+    this.workers.length = 0;
+    this.queue = [];
+  }
+
+  /**
+   * 작업 취소
+   * 대기 중인 작업은 대기열에서 제거하고, 실행 중인 작업은 워커를 교체하여 중단
+   */
+  private cancel(task: LintWorkerTask): void {
+    const error = new CancelledError(MESSAGES.LINT_CANCELLED);
+    const index = this.queue.indexOf(task);
+
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      task.reject(error);
+      return;
+    }
+
+    const pooled = this.workers.find((worker) => worker.task === task);
+    if (pooled) {
+      logger.debug('Lint worker aborted by cancellation');
+      this.abort(pooled, error);
+    }
+  }
+
+  /**
+   * 워커 생성 (워커가 프로세스 종료를 막지 않도록 unref)
+   */
+  private spawn(): Worker {
+    const worker = new Worker(this.scriptUrl);
+    worker.unref();
+    return worker;
+  }
+
+  /**
+   * 워커 이벤트 연결
+   */
+  private attach(pooled: PooledWorker): void {
+    pooled.worker.onmessage = (event: MessageEvent<LintWorkerResponse>) => {
+      this.settle(pooled, event.data);
+    };
+    pooled.worker.onerror = (event: ErrorEvent) => {
+      this.replace(pooled, event.message);
+    };
+  }
+
+  /**
+   * 유휴 워커에 대기 중인 요청 분배
+   */
+  private dispatch(): void {
+    for (const pooled of this.workers) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (!pooled.task) {
+        const task = this.queue.shift() as LintWorkerTask;
+        const message: LintWorkerRequest = { request: task.request };
+
+        pooled.task = task;
+        pooled.worker.postMessage(message);
+
+        if (task.timeoutMs !== undefined) {
+          const startedAt = Date.now();
+          const timeoutMs = task.timeoutMs;
+          task.timer = setTimeout(() => {
+            logger.warn('Lint worker timed out', { timeoutMs });
+            this.abort(pooled, createTimeoutError(timeoutMs, startedAt));
+          }, timeoutMs);
+        }
+      }
+    }
+  }
+
+  /**
+   * 워커 응답으로 작업을 완료하고 다음 요청 분배
+   */
+  private settle(pooled: PooledWorker, response: LintWorkerResponse): void {
+    const { task } = pooled;
+    pooled.task = undefined;
+    clearTimeout(task?.timer);
+
+    if ('error' in response) {
+      task?.reject(deserializeAppError(response.error));
+    } else {
+      task?.resolve(response.result);
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * 비정상 종료된 워커를 새 워커로 교체하고 실행 중이던 작업은 실패 처리
+   */
+  private replace(pooled: PooledWorker, reason: string): void {
+    logger.error('Lint worker crashed', { reason });
+    this.abort(pooled, new AppError(MESSAGES.WORKER_CRASHED));
+  }
+
+  /**
+   * 실행 중인 작업을 에러로 끝내고 워커를 새 워커로 교체
+   * 종료된 워커의 늦은 응답이 새 작업에 섞이지 않도록 핸들러를 먼저 해제
+   */
+  private abort(pooled: PooledWorker, error: AppError): void {
+    clearTimeout(pooled.task?.timer);
+    pooled.task?.reject(error);
+    pooled.task = undefined;
+
+    pooled.worker.onmessage = null;
+    pooled.worker.onerror = null;
+    pooled.worker.terminate();
+    pooled.worker = this.spawn();
+    this.attach(pooled);
+
+    this.dispatch();
+  }
+}
+
+/**
+ * 싱글톤 워커 풀 (첫 요청 시 생성)
+ */
+let pool: LintWorkerPool | undefined;
+
+/**
+ * 싱글톤 워커 풀 반환 (없으면 생성)
+ */
+function getLintWorkerPool(): LintWorkerPool {
+  if (!pool) {
+    pool = new LintWorkerPool(env.LINT_WORKERS);
+    logger.info('Lint worker pool started', { size: pool.size });
+  }
+
+  return pool;
+}
+
+/**
+ * 요청에 적용할 제한 시간 결정
+ * 요청의 timeoutMs는 서버 설정 LINT_TIMEOUT_MS를 넘을 수 없음
+ *
+ * @param request - 린트 요청
+ * @returns 제한 시간 (ms)
+ */
+function resolveTimeout(request: LintRequest): number {
+  return Math.min(
+    request.config.timeoutMs ?? env.LINT_TIMEOUT_MS,
+    env.LINT_TIMEOUT_MS,
+  );
+}
+
+/**
+ * 메인 스레드 린트에 제한 시간 적용
+ * 실행 중인 린트를 중단할 수는 없으므로 응답만 먼저 실패 처리함
+ */
+async function lintWithDeadline(
+  request: LintRequest,
+  timeoutMs: number,
+): Promise<LintResult> {
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(createTimeoutError(timeoutMs, startedAt)),
+      timeoutMs,
+    );
+  });
+
+  try {
+    return await Promise.race([lintCode(request), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 린트 요청을 워커 풀에서 제한 시간 내에 실행
+ * 같은 입력의 결과가 캐시에 있으면 워커를 거치지 않고 반환하며,
+ * LINT_WORKERS가 0이면 워커 없이 메인 스레드에서 실행
+ *
+ * @param request - 린트 요청
+ * @param signal - 취소 신호 (선택사항, LINT_WORKERS가 0이면 실행 전까지만 취소 가능)
+ * @returns 린트 결과
+ * @throws {TimeoutError} 제한 시간을 초과한 경우 (504)
+ * @throws {CancelledError} 취소된 경우
+ * @throws {AppError} 린트 실패 시 (lintCode와 같은 에러 종류)
+ *
+ * @example
+ * ```typescript
+ * const result = await lintInWorker({
+ *   code: 'a { color: #FFF; }',
+ *   syntax: 'css',
+ *   config: { rules: { 'color-hex-case': 'lower' }, timeoutMs: 5000 },
+ * });
+ * ```
+ */
+export async function lintInWorker(
+  request: LintRequest,
+  signal?: AbortSignal,
+): Promise<LintResult> {
+  const timeoutMs = resolveTimeout(request);
+
+  // 메인 스레드에서는 lintCode가 결과 캐시를 사용 (실행 중인 린트는 취소 불가)
+  if (env.LINT_WORKERS === 0) {
+    if (signal?.aborted) {
+      throw new CancelledError(MESSAGES.LINT_CANCELLED);
+    }
+    return lintWithDeadline(request, timeoutMs);
+  }
+
+  // 캐시 적중 시 워커에 전달하지 않고 바로 반환
+  const cacheKey = lintResultCache.enabled
+    ? createLintCacheKey(request)
+    : undefined;
+  const cached = cacheKey && lintResultCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await getLintWorkerPool().run(request, timeoutMs, signal);
+  if (cacheKey) {
+    lintResultCache.set(cacheKey, result);
+  }
+
+  return result;
+}
+
+/**
+ * 서버 시작 시 린트 실행 환경을 미리 준비
+ * 워커 풀을 첫 요청 전에 생성하여 각 워커가 기본 Stylelint 설정과 규칙 카탈로그를
+ * 미리 준비하게 하고, LINT_WORKERS가 0이면 메인 스레드에서 준비함
+ * (이 경우 LINT_TIMEOUT_MS는 응답만 제한하고 린트를 중단하지 못하므로 경고를 남김)
+ * 배치/작업/실시간 린트의 설정 검증은 메인 스레드에서 하므로 카탈로그는 항상 준비
+ *
+ * @returns 메인 스레드 준비가 끝나면 resolve (워커의 준비는 기다리지 않음)
+ */
+export async function warmUpLinting(): Promise<void> {
+  if (env.LINT_WORKERS === 0) {
+    logger.warn('Lint timeout only limits responses without workers', {
+      lintWorkers: 0,
+      timeoutMs: env.LINT_TIMEOUT_MS,
+    });
+    await Promise.all([warmStylelintConfigs(), warmRuleCatalog()]);
+    return;
+  }
+
+  getLintWorkerPool();
+  await warmRuleCatalog();
+}
@@ -0,0 +1,180 @@
+import { createEmptyLintContent, validateLintConfig } from './lintService';
+import { lintInWorker } from './lintWorkerPool';
+import {
+  CssSyntax,
+  LintRequest,
+  LintResult,
+  LiveLintServerMessage,
+} from '../types';
+import { LIVE_LINT_ERRORS } from '../constants';
+import { ValidationError, toAppError } from '../errors';
+import { isEmptyString, validateSyntax } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * 취소 신호를 받는 린트 실행 함수
+ */
+export type LiveLintRunner = (
+  request: LintRequest,
+  signal: AbortSignal,
+) => Promise<LintResult>;
+
+/**
+ * 세션에 설정된 문법과 린트 설정
+ */
+interface LiveLintSettings {
+  syntax: CssSyntax;
+  config: LintRequest['config'];
+}
+
+/**
+ * WebSocket 연결 하나의 실시간 린트 세션
+ * 문서 버전마다 린트하여 결과를 보내되, 새 버전이 오면 이전 버전의 린트를 취소하고
+ * 결과도 보내지 않음 (클라이언트는 version으로 늦게 도착한 결과를 구분)
+ */
+export class LiveLintSession {
+  private settings?: LiveLintSettings;
+  /** 진행 중인 설정 검증 (open 직후 도착한 update가 기다림) */
+  private opening?: Promise<void>;
+  private latestVersion?: number;
+  private controller?: AbortController;
+  private readonly send: (message: LiveLintServerMessage) => void;
+  private readonly runner: LiveLintRunner;
+
+  /**
+   * @param send - 클라이언트로 메시지를 보내는 함수
+   * @param runner - 린트 실행 함수 (기본값: 워커 풀)
+   */
+  constructor(
+    send: (message: LiveLintServerMessage) => void,
+    runner: LiveLintRunner = lintInWorker,
+  ) {
+    this.send = send;
+    this.runner = runner;
+  }
+
+  /**
+   * 세션 설정 (다시 호출하면 이후 update부터 새 설정 사용)
+   * 설정이 유효하지 않으면 error 메시지를 보내고 이전 설정을 유지
+   *
+   * @param syntax - CSS 문법 타입
+   * @param config - 린트 설정 (POST /lint의 config와 같은 형식)
+   */
+  open(syntax: CssSyntax, config: LintRequest['config']): Promise<void> {
+    const opening = this.configure(syntax, config).finally(() => {
+      if (this.opening === opening) {
+        this.opening = undefined;
+      }
+    });
+    this.opening = opening;
+
+    return opening;
+  }
+
+  /**
+   * 설정을 검증하여 적용하고 ready 또는 error 메시지 전송
+   */
+  private async configure(
+    syntax: CssSyntax,
+    config: LintRequest['config'],
+  ): Promise<void> {
+    try {
+      validateSyntax(syntax);
+      await validateLintConfig(config);
+    } catch (error) {
+      this.sendError(error);
+      return;
+    }
+
+    this.settings = { syntax, config };
+    this.send({ type: 'ready', syntax });
+  }
+
+  /**
+   * 문서 변경을 린트하여 결과 전송
+   * 실행 중이거나 대기 중인 이전 버전의 린트는 취소되며, 이미 워커에서 실행 중인
+   * 린트는 워커를 교체하여 중단함. 빈 문서는 린트하지 않고 경고가 없는 결과를 보냄
+   *
+   * @param version - 문서 버전 (이전 update보다 커야 함)
+   * @param code - 문서 전체 코드
+   */
+  async update(version: number, code: string): Promise<void> {
+    if (this.opening) {
+      await this.opening;
+    }
+
+    if (!this.settings) {
+      this.sendError(new ValidationError(LIVE_LINT_ERRORS.NOT_OPENED), version);
+      return;
+    }
+
+    if (this.latestVersion !== undefined && version <= this.latestVersion) {
+      this.sendError(
+        new ValidationError(LIVE_LINT_ERRORS.STALE_VERSION, {
+          version,
+          latestVersion: this.latestVersion,
+        }),
+        version,
+      );
+      return;
+    }
+
+    this.latestVersion = version;
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const { syntax, config } = this.settings;
+
+    try {
+      if (isEmptyString(code)) {
+        const content = createEmptyLintContent({ code, syntax, config });
+        this.send({ type: 'result', version, content });
+        return;
+      }
+
+      const result = await this.runner(
+        { code, syntax, config },
+        controller.signal,
+      );
+
+      // 더 새로운 버전이 도착했으면 결과를 버림
+      if (!controller.signal.aborted && result.content) {
+        this.send({ type: 'result', version, content: result.content });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.sendError(error, version);
+      }
+    }
+  }
+
+  /**
+   * 세션 종료 (진행 중인 린트 취소)
+   */
+  close(): void {
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+
+  /**
+   * 에러를 error 메시지로 전송
+   */
+  private sendError(error: unknown, version?: number): void {
+    const appError = toAppError(error);
+
+    logger.debug('Live lint failed', {
+      version,
+      code: appError.code,
+      message: appError.message,
+    });
+
+    this.send({
+      type: 'error',
+      ...(version !== undefined && { version }),
+      message: appError.message,
+      code: appError.code,
+      ...(appError.context && { context: appError.context }),
+    });
+  }
+}
@@ -0,0 +1,290 @@
+import styleLint from 'stylelint';
+import type { Config, Rule, RuleMeta } from 'stylelint';
+import {
+  DEFAULT_EXTENDS,
+  DEFAULT_PLUGINS,
+  RULE_NAME_ALIASES,
+} from '../config/stylelint';
+import { env } from '../config/env';
+import { RuleCatalogEntry, StylelintRuleValue } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * 코어 규칙의 출처 패키지 이름
+ */
+const CORE_SOURCE = 'stylelint';
+
+/**
+ * 확장 설정 해석에 사용할 가상 파일 경로
+ * stylelint-config-recommended-vue는 *.vue overrides에만 규칙을 정의하므로
+ * .vue 경로로 해석해야 모든 기본 확장 설정의 규칙이 포함됨
+ */
+const CATALOG_FILE_PATH = 'catalog.vue';
+
+/**
+ * 모듈 경로에서 패키지 이름을 추출하는 패턴
+ */
+const PACKAGE_PATH_PATTERN = /node_modules\/((?:@[^/]+\/)?[^/]+)\//;
+
+/**
+ * 규칙 메타데이터를 제공하지 않는 플러그인의 보완 정보
+ */
+const PLUGIN_META_FALLBACK: Record<
+  string,
+  { url: (shortName: string) => string; fixable: boolean }
+> = {
+  'stylelint-order': {
+    url: (shortName) =>
+      `https://github.com/hudochenkov/stylelint-order/blob/master/rules/${shortName}/README.md`,
+    fixable: true,
+  },
+};
+
+/**
+ * 플러그인 모듈이 내보내는 규칙 정의
+ */
+interface PluginRule {
+  ruleName: string;
+  rule: Rule | Promise<Rule>;
+}
+
+/**
+ * 한 번 생성한 카탈로그 (설치된 패키지는 실행 중 바뀌지 않음)
+ */
+let catalogPromise: Promise<RuleCatalogEntry[]> | null = null;
+
+/**
+ * 규칙 값이 규칙을 활성화하는지 확인
+ * null, false 또는 [null, ...]은 비활성화
+ */
+function isRuleEnabled(value: StylelintRuleValue | undefined): boolean {
+  if (value === undefined || value === null || value === false) {
+    return false;
+  }
+
+  return !(Array.isArray(value) && value[0] === null);
+}
+
+/**
+ * 확장 설정을 해석하여 활성화된 규칙과 로드된 플러그인 경로 반환
+ *
+ * @param config - 해석할 Stylelint 설정
+ * @returns 활성화된 규칙 이름 집합과 플러그인 모듈 경로 목록
+ */
+async function resolveConfigRules(
+  config: Config,
+): Promise<{ enabled: Set<string>; pluginPaths: string[] }> {
+  const resolved = await styleLint.resolveConfig(CATALOG_FILE_PATH, {
+    config: { ...config, rules: {} },
+  });
+
+  const rules = (resolved?.rules ?? {}) as Record<string, StylelintRuleValue>;
+  const plugins = resolved?.plugins ?? [];
+  const pluginPaths = (Array.isArray(plugins) ? plugins : [plugins]).filter(
+    (plugin): plugin is string => typeof plugin === 'string',
+  );
+
+  return {
+    enabled: new Set(
+      Object.keys(rules).filter((name) => isRuleEnabled(rules[name])),
+    ),
+    pluginPaths,
+  };
+}
+
+/**
+ * 플러그인 모듈에서 규칙 정의 목록 로드
+ * 모듈은 플러그인 하나 또는 플러그인 배열을 기본 내보내기로 제공
+ *
+ * @param specifier - 플러그인 패키지 이름 또는 모듈 경로
+ * @returns 규칙 정의 목록
+ */
+async function loadPluginRules(specifier: string): Promise<PluginRule[]> {
+  const pluginModule = await import(specifier);
+  const exported = pluginModule.default ?? pluginModule;
+  const plugins: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  return plugins.filter(
+    (plugin): plugin is PluginRule =>
+      typeof (plugin as PluginRule | null)?.ruleName === 'string',
+  );
+}
+
+/**
+ * 규칙 메타데이터로 카탈로그 항목 생성
+ */
+function createEntry(
+  name: string,
+  source: string,
+  meta: Partial<RuleMeta> | undefined,
+  enabledByDefault: Set<string>,
+  enabledByConfig: Map<string, Set<string>>,
+): RuleCatalogEntry {
+  const fallback = PLUGIN_META_FALLBACK[source];
+  const shortName = name.slice(name.indexOf('/') + 1);
+  const url = meta?.url ?? fallback?.url(shortName);
+
+  return {
+    name,
+    source,
+    ...(url && { url }),
+    fixable: meta?.fixable ?? fallback?.fixable ?? false,
+    deprecated: meta?.deprecated === true,
+    enabledByDefault: enabledByDefault.has(name),
+    enabledBy: [...enabledByConfig.entries()]
+      .filter(([, rules]) => rules.has(name))
+      .map(([configName]) => configName),
+  };
+}
+
+/**
+ * 규칙 카탈로그 생성
+ */
+async function buildRuleCatalog(): Promise<RuleCatalogEntry[]> {
+  const startTime = Date.now();
+  const pluginPackages = [
+    ...new Set([...DEFAULT_PLUGINS, ...env.ALLOWED_PLUGINS]),
+  ];
+
+  // 기본 확장 설정 전체 및 설정별로 활성화되는 규칙 해석
+  const defaults = await resolveConfigRules({
+    extends: [...DEFAULT_EXTENDS],
+    plugins: [...DEFAULT_PLUGINS],
+  });
+  const enabledByDefault = defaults.enabled;
+  const enabledByConfig = new Map<string, Set<string>>();
+  for (const configName of DEFAULT_EXTENDS) {
+    const { enabled } = await resolveConfigRules({
+      extends: [configName],
+      plugins: [...DEFAULT_PLUGINS],
+    });
+    enabledByConfig.set(configName, enabled);
+  }
+
+  // 플러그인 패키지 이름 → 로드할 모듈
+  // 확장 설정이 불러오는 플러그인(예: stylelint-scss)은 해석된 경로로 로드
+  const pluginModules = new Map<string, string>(
+    pluginPackages.map((packageName) => [packageName, packageName]),
+  );
+  // 요청에서 지정할 수 있는 추가 확장 설정이 불러오는 플러그인도 포함
+  const pluginPaths = [...defaults.pluginPaths];
+  const defaultExtends: readonly string[] = DEFAULT_EXTENDS;
+  const extraExtends = env.ALLOWED_EXTENDS.filter(
+    (configName) => !defaultExtends.includes(configName),
+  );
+  if (extraExtends.length > 0) {
+    const allowed = await resolveConfigRules({ extends: extraExtends });
+    pluginPaths.push(...allowed.pluginPaths);
+  }
+  for (const pluginPath of pluginPaths) {
+    const packageName = PACKAGE_PATH_PATTERN.exec(pluginPath)?.[1];
+    if (packageName && !pluginModules.has(packageName)) {
+      pluginModules.set(packageName, pluginPath);
+    }
+  }
+
+  const entries: RuleCatalogEntry[] = [];
+
+  // 코어 규칙 (stylelint 16부터 규칙은 지연 로드되는 Promise)
+  const coreRules = styleLint.rules as Record<string, Promise<Rule>>;
+  for (const name of Object.keys(coreRules)) {
+    const rule = await coreRules[name];
+    entries.push(
+      createEntry(
+        name,
+        CORE_SOURCE,
+        rule.meta,
+        enabledByDefault,
+        enabledByConfig,
+      ),
+    );
+  }
+
+  // 플러그인 규칙
+  for (const [packageName, specifier] of pluginModules) {
+    for (const plugin of await loadPluginRules(specifier)) {
+      const rule = await plugin.rule;
+      entries.push(
+        createEntry(
+          plugin.ruleName,
+          packageName,
+          rule.meta,
+          enabledByDefault,
+          enabledByConfig,
+        ),
+      );
+    }
+  }
+
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  logger.info('Rule catalog built', {
+    rulesCount: entries.length,
+    plugins: [...pluginModules.keys()],
+    durationMs: Date.now() - startTime,
+  });
+
+  return entries;
+}
+
+/**
+ * 실행 중인 서버에서 사용 가능한 모든 규칙 목록 반환
+ * 첫 호출 시 생성한 결과를 재사용함
+ *
+ * @returns 이름순으로 정렬된 규칙 카탈로그
+ *
+ * @example
+ * ```typescript
+ * const rules = await getRuleCatalog();
+ * // [{ name: 'alpha-value-notation', source: 'stylelint', fixable: true, ... }]
+ * ```
+ */
+export async function getRuleCatalog(): Promise<RuleCatalogEntry[]> {
+  if (!catalogPromise) {
+    catalogPromise = buildRuleCatalog().catch((error: unknown) => {
+      // 실패한 결과는 캐시하지 않고 다음 요청에서 다시 시도
+      catalogPromise = null;
+      throw error;
+    });
+  }
+
+  return catalogPromise;
+}
+
+/**
+ * 요청 규칙에 사용할 수 있는 모든 규칙 이름 반환
+ * 카탈로그의 규칙 이름과 이전 규칙 이름(별칭)을 포함
+ *
+ * @returns 사용 가능한 규칙 이름 집합
+ */
+export async function getKnownRuleNames(): Promise<Set<string>> {
+  const catalog = await getRuleCatalog();
+  return new Set([
+    ...catalog.map((entry) => entry.name),
+    ...Object.keys(RULE_NAME_ALIASES),
+  ]);
+}
+
+/**
+ * 규칙 카탈로그를 미리 생성 (서버/워커 시작 시 호출)
+ * 첫 요청의 규칙 이름 검증이 모든 플러그인을 읽는 동안 기다리지 않도록 함.
+ * 실패해도 요청 처리 시 다시 생성하므로 경고만 기록
+ *
+ * @returns 카탈로그 생성이 끝나면 resolve
+ */
+export async function warmRuleCatalog(): Promise<void> {
+  const startedAt = performance.now();
+
+  try {
+    const catalog = await getRuleCatalog();
+
+    logger.debug('Rule catalog warmed', {
+      rules: catalog.length,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  } catch (error) {
+    logger.warn('Rule catalog warm-up failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import styleLint from 'stylelint';
+import { createStylelintConfig } from '../config/stylelint';
+import { ResolvedStylelintConfig, StylelintConfig } from '../types';
+import { STYLELINT_CONFIG_CACHE, STYLELINT_CONSTANTS } from '../constants';
+import { LRUCache } from '../utils/lruCache';
+import { stableStringify } from '../utils/stableStringify';
+import { logger } from '../utils/logger';
+
+/**
+ * 설정 해석에 사용할 가상 파일 경로
+ * 확장자가 없어 overrides가 적용되지 않으므로 파일 이름 없이 코드를 린트할 때와
+ * 같은 설정이 됨 (예: stylelint-config-recommended-vue의 *.vue overrides 제외)
+ */
+const RESOLVE_FILE_PATH = 'input';
+
+/**
+ * 해석된 설정 캐시 (설정 조합별, 동시 요청이 같은 해석 작업을 공유하도록 Promise 저장)
+ * 설치된 패키지는 실행 중 바뀌지 않으므로 만료 없이 용량으로만 제한
+ */
+const resolvedConfigCache = new LRUCache<Promise<ResolvedStylelintConfig>>(
+  STYLELINT_CONFIG_CACHE.SIZE,
+  Infinity,
+);
+
+/**
+ * Stylelint 설정 해석 결과
+ */
+export interface StylelintConfigResolution {
+  /** extends가 병합되고 플러그인이 로드된 설정 */
+  config: ResolvedStylelintConfig;
+  /** 캐시된 설정을 사용했는지 여부 */
+  cached: boolean;
+}
+
+/**
+ * Stylelint 설정을 해석하여 캐시
+ * 린트할 때마다 extends/plugins를 디스크에서 다시 찾지 않도록 규칙/문법 조합별로
+ * 한 번만 해석함. 해석에 실패한 설정은 캐시하지 않음
+ *
+ * @param config - createStylelintConfig로 만든 설정
+ * @returns 해석된 설정 (stylelint.lint의 config에 그대로 전달 가능)
+ * @throws {Error} extends/plugins를 로드할 수 없는 경우 (Stylelint 에러)
+ *
+ * @example
+ * ```typescript
+ * const { config, cached } = await resolveStylelintConfig(
+ *   createStylelintConfig({ 'color-hex-case': 'lower' }, 'scss'),
+ * );
+ * await stylelint.lint({ code, config: { ...config } });
+ * ```
+ */
+export async function resolveStylelintConfig(
+  config: StylelintConfig,
+): Promise<StylelintConfigResolution> {
+  const key = stableStringify(config);
+  const cached = resolvedConfigCache.get(key);
+  if (cached) {
+    return { config: await cached, cached: true };
+  }
+
+  const resolving = styleLint
+    .resolveConfig(RESOLVE_FILE_PATH, { config })
+    .then((resolved) => resolved ?? config);
+  resolvedConfigCache.set(key, resolving);
+
+  try {
+    return { config: await resolving, cached: false };
+  } catch (error) {
+    resolvedConfigCache.delete(key);
+    throw error;
+  }
+}
+
+/**
+ * 문법별 기본 설정을 미리 해석 (서버/워커 시작 시 호출)
+ * 기본 extends/plugins 모듈을 첫 요청 전에 로드해 두어 첫 린트 지연을 줄임.
+ * 실패해도 요청 처리 시 다시 해석하므로 경고만 기록
+ *
+ * @returns 모든 문법의 기본 설정 해석이 끝나면 resolve
+ */
+export async function warmStylelintConfigs(): Promise<void> {
+  const startedAt = performance.now();
+
+  try {
+    await Promise.all(
+      STYLELINT_CONSTANTS.SUPPORTED_SYNTAXES.map((syntax) =>
+        resolveStylelintConfig(createStylelintConfig({}, syntax)),
+      ),
+    );
+
+    logger.debug('Stylelint configs warmed', {
+      syntaxes: STYLELINT_CONSTANTS.SUPPORTED_SYNTAXES.length,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  } catch (error) {
+    logger.warn('Stylelint config warm-up failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,16 +1,49 @@
+import type { Config } from 'stylelint';
+
 /**
  * CSS 문법 타입
  * - css: 순수 CSS 파일
  * - html: HTML 내 <style> 태그
+ * - scss: SCSS 파일
+ * - sass: 들여쓰기 기반 Sass 파일
+ * - less: Less 파일
  */
-export type CssSyntax = 'css' | 'html';
+export type CssSyntax = 'css' | 'html' | 'scss' | 'sass' | 'less';
 
 /**
  * CSS 출력 포맷 스타일
  * - compact: 한 줄로 압축된 형식
  * - nested: 들여쓰기가 적용된 중첩 형식
+ * - expanded: 중첩 형식에 규칙 블록 사이 빈 줄을 더한 형식
+ * - compressed: 공백과 블록의 마지막 세미콜론을 제거한 최소 형식
  */
-export type OutputStyle = 'compact' | 'nested';
+export type OutputStyle = 'compact' | 'nested' | 'expanded' | 'compressed';
+
+/**
+ * 린트 결과 리포트 포맷
+ * - json: 기본 `{ success, message, content }` 응답
+ * - sarif: SARIF 2.1.0 JSON
+ * - checkstyle: Checkstyle XML
+ * - junit: JUnit XML
+ * - github: GitHub Actions 워크플로 명령(`::error file=...`) 줄
+ */
+export type ReportFormat = 'json' | 'sarif' | 'checkstyle' | 'junit' | 'github';
+
+/**
+ * 자동 수정 모드
+ * - off: 자동 수정하지 않음 (원본 코드 반환)
+ * - lax: Stylelint 기본 수정 모드 (관대한 파서 사용)
+ * - strict: 엄격한 파서로 파싱 가능한 경우에만 수정
+ */
+export type FixMode = 'off' | 'lax' | 'strict';
+
+/**
+ * 요청의 자동 수정 옵션
+ * - true: 모든 수정 적용 (Stylelint에서 'lax'와 동일)
+ * - false: 수정하지 않음
+ * - 'lax' | 'strict': Stylelint 수정 모드 지정
+ */
+export type FixOption = boolean | Exclude<FixMode, 'off'>;
 
 /**
  * Stylelint 규칙 값 타입
@@ -28,6 +61,33 @@ export type StylelintRuleValue =
   | number
   | Array<string | number | boolean | Record<string, unknown>>;
 
+/**
+ * 출력 줄바꿈 스타일
+ */
+export type NewlineStyle = 'lf' | 'crlf';
+
+/**
+ * 문자열 따옴표 선호
+ * - preserve: 원본 따옴표 유지
+ */
+export type QuotePreference = 'single' | 'double' | 'preserve';
+
+/**
+ * 출력 포맷 옵션 (outputStyle 적용 시 사용)
+ */
+export interface FormatOptions {
+  /** 들여쓰기 스페이스 수 (기본값: 2, useTabs가 true면 무시) */
+  indentSize?: number;
+  /** 스페이스 대신 탭으로 들여쓰기 (기본값: false) */
+  useTabs?: boolean;
+  /** 줄바꿈 스타일 (기본값: 'lf') */
+  newline?: NewlineStyle;
+  /** 출력 끝에 줄바꿈 추가 (기본값: false) */
+  finalNewline?: boolean;
+  /** 문자열 따옴표 선호 (기본값: 'preserve') */
+  quote?: QuotePreference;
+}
+
 /**
  * Stylelint 경고 정보
  */
@@ -36,12 +96,88 @@ export interface StylelintWarning {
   line: number;
   /** 경고가 발생한 열 번호 */
   column: number;
+  /** 경고 범위가 끝나는 줄 번호 (범위 미포함, 규칙이 제공하는 경우) */
+  endLine?: number;
+  /** 경고 범위가 끝나는 열 번호 (범위 미포함, 규칙이 제공하는 경우) */
+  endColumn?: number;
   /** 위반된 규칙 이름 */
   rule: string;
   /** 경고의 심각도 (error, warning) */
   severity: 'error' | 'warning';
   /** 경고 메시지 */
   text: string;
+  /** 규칙 문서 URL (규칙 메타데이터가 제공하는 경우) */
+  url?: string;
+  /** 규칙이 자동 수정을 지원하는지 여부 */
+  fixable: boolean;
+  /**
+   * 자동 수정을 켜고 다시 요청하면 수정되는 경고인지 여부
+   * 자동 수정이 적용된 응답에 남은 경고는 수정되지 않은 것이므로 항상 false
+   */
+  autofixable: boolean;
+}
+
+/**
+ * 비활성화 주석 보고 유형
+ * - needless: 위반이 없는 구간을 비활성화한 주석
+ * - invalid-scope: 설정에서 켜지지 않은 규칙을 비활성화한 주석
+ * - descriptionless: `-- 설명`이 없는 주석
+ */
+export type DisableReportType =
+  | 'needless'
+  | 'invalid-scope'
+  | 'descriptionless';
+
+/**
+ * 비활성화 주석(`/* stylelint-disable *\/`) 문제
+ */
+export interface DisableReport {
+  /** 보고 유형 */
+  type: DisableReportType;
+  /** 주석이 가리키는 규칙 이름 (전체 비활성화인 경우 'all') */
+  rule: string;
+  /** 주석이 시작하는 줄 번호 */
+  line: number;
+  /** 주석이 시작하는 열 번호 */
+  column: number;
+  /** 주석이 끝나는 줄 번호 (범위 미포함) */
+  endLine?: number;
+  /** 주석이 끝나는 열 번호 (범위 미포함) */
+  endColumn?: number;
+  /** 보고 메시지 */
+  text: string;
+}
+
+/**
+ * 잘못된 규칙 옵션 경고 (프리셋/확장 설정 등 요청 외부의 설정에서 발생)
+ */
+export interface StylelintInvalidOptionWarning {
+  /** 경고 메시지 */
+  text: string;
+  /** 옵션이 잘못된 규칙 이름 (메시지에서 추출 가능한 경우) */
+  rule?: string;
+}
+
+/**
+ * 사용 중단된 규칙/옵션 알림
+ */
+export interface StylelintDeprecation {
+  /** 알림 메시지 */
+  text: string;
+  /** 관련 문서 URL (제공되는 경우) */
+  reference?: string;
+}
+
+/**
+ * 린트를 중단하지 않은 파싱 오류
+ */
+export interface StylelintParseError {
+  /** 오류가 발생한 줄 번호 (제공되는 경우) */
+  line?: number;
+  /** 오류가 발생한 열 번호 (제공되는 경우) */
+  column?: number;
+  /** 오류 메시지 */
+  text: string;
 }
 
 /**
@@ -58,16 +194,57 @@ export interface StylelintConfig {
   customSyntax?: string;
 }
 
+/**
+ * Stylelint가 해석한 설정
+ * extends가 병합되고 플러그인 경로가 절대 경로로 바뀐 상태
+ */
+export type ResolvedStylelintConfig = Config;
+
+/**
+ * 서버 측 린트 프리셋
+ * 프리셋 디렉토리의 JSON 파일에서 로드되며 파일 이름이 프리셋 이름이 됨
+ */
+export interface LintPreset {
+  /** 프리셋 이름 */
+  name: string;
+  /** 프리셋 설명 */
+  description?: string;
+  /** 기본 확장 설정에 추가할 설정 목록 */
+  extends: string[];
+  /** 기본 플러그인에 추가할 플러그인 목록 */
+  plugins: string[];
+  /** 프리셋 린트 규칙 */
+  rules: Record<string, StylelintRuleValue>;
+}
+
+/**
+ * Stylelint 설정 생성 옵션
+ */
+export interface StylelintConfigOptions {
+  /** 적용할 서버 측 프리셋 */
+  preset?: LintPreset;
+  /** 기본 확장 설정 대신 사용할 목록 */
+  extends?: string[];
+  /** 기본 플러그인 대신 사용할 목록 */
+  plugins?: string[];
+}
+
 /**
  * Stylelint 실행 옵션
  */
 export interface LintOptions {
   /** 린트할 CSS 코드 */
   code: string;
-  /** Stylelint 설정 */
-  config: StylelintConfig;
-  /** 자동 수정 활성화 여부 */
-  fix?: boolean;
+  /** Stylelint 설정 (해석된 설정이면 extends를 다시 읽지 않음) */
+  config: StylelintConfig | ResolvedStylelintConfig;
+  /** 자동 수정 활성화 여부 또는 수정 모드 */
+  fix?: boolean | Exclude<FixMode, 'off'>;
+  /** 불필요한 비활성화 주석 보고 */
+  reportNeedlessDisables?: boolean;
+  /** 켜지지 않은 규칙의 비활성화 주석 보고 */
+  reportInvalidScopeDisables?: boolean;
+  /** 설명이 없는 비활성화 주석 보고 */
+  reportDescriptionlessDisables?: boolean;
 }
 
 /**
@@ -76,6 +253,8 @@ export interface LintOptions {
 export interface LintResultInfo {
   /** Stylelint 버전 */
   version: string;
+  /** 적용된 자동 수정 모드 */
+  fix: FixMode;
   /** 사용된 설정 정보 */
   config: {
     /** 확장된 설정 목록 */
@@ -84,17 +263,61 @@ export interface LintResultInfo {
     plugins: string[];
     /** 커스텀 문법 파서 */
     customSyntax?: string;
+    /** 적용된 프리셋 이름 */
+    preset?: string;
   };
 }
 
+/**
+ * 변경 구간(hunk) 정보
+ */
+export interface DiffHunk {
+  /** 원본 코드의 시작 줄 번호 */
+  oldStart: number;
+  /** 원본 코드에서 구간이 차지하는 줄 수 */
+  oldLines: number;
+  /** 출력 코드의 시작 줄 번호 */
+  newStart: number;
+  /** 출력 코드에서 구간이 차지하는 줄 수 */
+  newLines: number;
+  /** 제거된 줄 목록 */
+  removed: string[];
+  /** 추가된 줄 목록 */
+  added: string[];
+}
+
+/**
+ * 원본 코드와 출력 코드 사이의 차이
+ */
+export interface LintDiff {
+  /** Unified diff 형식의 패치 문자열 */
+  unified: string;
+  /** 구조화된 변경 구간 목록 */
+  hunks: DiffHunk[];
+}
+
 /**
  * 린트 결과 콘텐츠
  */
 export interface LintResultContent {
   /** 경고 및 오류 목록 */
   warnings: StylelintWarning[];
+  /** error 심각도의 경고, 설정 오류 또는 파싱 오류가 있는지 여부 */
+  errored: boolean;
+  /** 프리셋/확장 설정의 잘못된 규칙 옵션 경고 (CSS가 아닌 설정 문제) */
+  invalidOptionWarnings: StylelintInvalidOptionWarning[];
+  /** 사용 중단된 규칙/옵션 알림 */
+  deprecations: StylelintDeprecation[];
+  /** 린트를 중단하지 않은 파싱 오류 */
+  parseErrors: StylelintParseError[];
+  /** 비활성화 주석 문제 (report*Disables 요청 시) */
+  disableReports: DisableReport[];
   /** 포맷팅된 CSS 출력 */
   output: string;
+  /** 다시 포맷팅된 <style> 블록 수 (html 문법에 outputStyle을 지정한 경우) */
+  formattedStyleBlocks?: number;
+  /** 원본 코드와 출력 코드의 차이 (includeDiff 요청 시) */
+  diff?: LintDiff;
   /** 버전 및 설정 정보 */
   info: LintResultInfo;
 }
@@ -109,6 +332,8 @@ export interface LintResult {
   message: string;
   /** 린트 결과 데이터 (실패 시 null) */
   content: LintResultContent | null;
+  /** 에러 상세 정보 (실패 시, 선택적) */
+  context?: Record<string, unknown>;
 }
 
 /**
@@ -121,9 +346,513 @@ export interface LintRequest {
   syntax: CssSyntax;
   /** 린트 설정 */
   config: {
-    /** Stylelint 규칙 */
-    rules: Record<string, StylelintRuleValue>;
+    /** Stylelint 규칙 (프리셋을 지정한 경우 선택사항, 프리셋 규칙을 덮어씀) */
+    rules?: Record<string, StylelintRuleValue>;
+    /** 서버 측 프리셋 이름 (선택사항) */
+    preset?: string;
+    /** 기본 확장 설정 대신 사용할 목록 (선택사항, 허용 목록 내에서만) */
+    extends?: string[];
+    /** 기본 플러그인 대신 사용할 목록 (선택사항, 허용 목록 내에서만) */
+    plugins?: string[];
     /** 출력 포맷 스타일 (선택사항) */
     outputStyle?: OutputStyle;
+    /** 출력 포맷 옵션 (선택사항, outputStyle 적용 시 사용) */
+    format?: FormatOptions;
+    /** 자동 수정 옵션 (선택사항, 기본값: true) */
+    fix?: FixOption;
+    /** 원본과 출력의 diff 포함 여부 (선택사항, 기본값: false) */
+    includeDiff?: boolean;
+    /** 불필요한 비활성화 주석 보고 (선택사항, 기본값: false) */
+    reportNeedlessDisables?: boolean;
+    /** 켜지지 않은 규칙의 비활성화 주석 보고 (선택사항, 기본값: false) */
+    reportInvalidScopeDisables?: boolean;
+    /** 설명이 없는 비활성화 주석 보고 (선택사항, 기본값: false) */
+    reportDescriptionlessDisables?: boolean;
+    /** 린트 제한 시간 (ms, 선택사항, 서버 설정 LINT_TIMEOUT_MS를 넘을 수 없음) */
+    timeoutMs?: number;
+  };
+}
+
+/**
+ * 배치 린트 대상 파일
+ */
+export interface LintBatchFile {
+  /** 파일 경로 (결과 키로 사용) */
+  path: string;
+  /** 린트할 CSS 코드 */
+  code: string;
+  /** CSS 문법 타입 */
+  syntax: CssSyntax;
+}
+
+/**
+ * 린트 요청을 실행하는 함수 (프로세스 내 실행 또는 워커 풀)
+ */
+export type LintRunner = (request: LintRequest) => Promise<LintResult>;
+
+/**
+ * API 요청: 배치 린트 요청
+ */
+export interface LintBatchRequest {
+  /** 린트할 파일 목록 */
+  files: LintBatchFile[];
+  /** 모든 파일에 공통으로 적용할 린트 설정 */
+  config: LintRequest['config'];
+}
+
+/**
+ * 배치 린트의 파일별 결과
+ */
+export interface LintBatchFileResult {
+  /** 파일 린트 성공 여부 */
+  success: boolean;
+  /** 파일별 응답 메시지 */
+  message: string;
+  /** 린트 결과 데이터 (실패 시 null) */
+  content: LintResultContent | null;
+  /** 에러 상세 정보 (실패 시, 선택적) */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * 배치 린트 결과 요약
+ */
+export interface LintBatchSummary {
+  /** 전체 파일 수 */
+  total: number;
+  /** 성공한 파일 수 */
+  succeeded: number;
+  /** 실패한 파일 수 */
+  failed: number;
+}
+
+/**
+ * API 응답: 배치 린트 결과
+ */
+export interface LintBatchResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 배치 결과 데이터 (실패 시 null) */
+  content: {
+    /** 파일 경로별 결과 */
+    results: Record<string, LintBatchFileResult>;
+    /** 결과 요약 */
+    summary: LintBatchSummary;
+  } | null;
+}
+
+/**
+ * 배치 린트 요청을 실행하는 함수 (프로세스 내 실행 또는 원격 서버)
+ */
+export type LintBatchRunner = (
+  request: LintBatchRequest,
+) => Promise<LintBatchResult>;
+
+/**
+ * 줄 범위 (1부터 시작, 끝 줄 포함)
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 변경된 줄 린트 대상 파일
+ */
+export interface LintChangedFile extends LintBatchFile {
+  /** 추가/수정된 줄 범위 (지정하면 diff보다 우선) */
+  changedLines?: LineRange[];
+}
+
+/**
+ * API 요청: 변경된 줄 린트 요청
+ */
+export interface LintChangedRequest {
+  /** 린트할 파일 목록 (변경 후 전체 내용) */
+  files: LintChangedFile[];
+  /** 변경 내용을 담은 unified diff (changedLines를 지정하지 않은 파일에 사용) */
+  diff?: string;
+  /** 모든 파일에 공통으로 적용할 린트 설정 */
+  config: LintRequest['config'];
+}
+
+/**
+ * 변경된 줄 린트의 파일별 결과
+ */
+export interface LintChangedFileResult extends LintBatchFileResult {
+  /** 경고를 남길 때 사용한 변경된 줄 범위 */
+  changedLines: LineRange[];
+  /** 변경되지 않은 줄의 경고라서 제외한 수 (비활성화 주석 문제 포함) */
+  filteredWarnings: number;
+}
+
+/**
+ * 변경된 줄 린트 결과 요약
+ */
+export interface LintChangedSummary extends LintBatchSummary {
+  /** 변경된 줄에 남은 경고 수 (비활성화 주석 문제 포함) */
+  warnings: number;
+  /** 기존 코드의 경고라서 제외한 수 (비활성화 주석 문제 포함) */
+  filteredWarnings: number;
+}
+
+/**
+ * API 응답: 변경된 줄 린트 결과
+ */
+export interface LintChangedResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 결과 데이터 (실패 시 null) */
+  content: {
+    /** 파일 경로별 결과 */
+    results: Record<string, LintChangedFileResult>;
+    /** 결과 요약 */
+    summary: LintChangedSummary;
+  } | null;
+}
+
+/**
+ * API 응답: 프리셋 목록
+ */
+export interface PresetListResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 프리셋 목록 데이터 */
+  content: {
+    /** 서버에 로드된 프리셋 목록 */
+    presets: LintPreset[];
+  };
+}
+
+/**
+ * 규칙 설정 오류 사유
+ * - unknown-rule: 설치된 규칙 중 해당 이름이 없음
+ * - invalid-option: 규칙 옵션 값/이름이 올바르지 않음
+ */
+export type RuleIssueReason = 'unknown-rule' | 'invalid-option';
+
+/**
+ * 요청 규칙의 설정 오류 (ValidationError context.rules 항목)
+ */
+export interface RuleIssue {
+  /** 요청에 지정한 규칙 이름 */
+  rule: string;
+  /** 오류 사유 */
+  reason: RuleIssueReason;
+  /** 오류 설명 */
+  message: string;
+  /** 가장 비슷한 규칙 이름 (unknown-rule인 경우, 선택적) */
+  suggestion?: string;
+}
+
+/**
+ * 규칙 카탈로그 항목
+ */
+export interface RuleCatalogEntry {
+  /** 규칙 이름 */
+  name: string;
+  /** 규칙을 제공하는 패키지 (stylelint 또는 플러그인 패키지 이름) */
+  source: string;
+  /** 규칙 문서 URL */
+  url?: string;
+  /** 자동 수정 지원 여부 */
+  fixable: boolean;
+  /** 사용 중단 여부 */
+  deprecated: boolean;
+  /** 기본 확장 설정을 모두 적용했을 때 활성화되는지 여부 */
+  enabledByDefault: boolean;
+  /** 이 규칙을 활성화하는 기본 확장 설정 목록 */
+  enabledBy: string[];
+}
+
+/**
+ * API 응답: 규칙 카탈로그
+ */
+export interface RuleCatalogResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 카탈로그 데이터 (실패 시 null) */
+  content: {
+    /** 규칙 목록 (이름순) */
+    rules: RuleCatalogEntry[];
+  } | null;
+}
+
+/**
+ * 리포트로 변환할 파일별 린트 결과
+ */
+export interface ReportFile {
+  /** 리포트에 표시할 파일 경로 */
+  path: string;
+  /** 파일의 린트 경고 목록 */
+  warnings: StylelintWarning[];
+  /** 파일 린트 실패 메시지 (배치에서 실패한 파일인 경우) */
+  error?: string;
+}
+
+/**
+ * 비동기 린트 작업 상태
+ * - queued: 실행 대기 중
+ * - running: 실행 중
+ * - completed: 린트 완료 (result 포함)
+ * - failed: 린트 실패 (error 포함)
+ * - cancelled: 종료 전에 취소됨
+ */
+export type LintJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * 비동기 린트 작업 실패 정보
+ */
+export interface LintJobError {
+  /** 에러 메시지 */
+  message: string;
+  /** 에러 코드 (예: VALIDATION_ERROR, PARSE_ERROR) */
+  code: string;
+  /** 에러 상세 정보 (선택적) */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * 비동기 린트 작업
+ */
+export interface LintJob {
+  /** 작업 ID */
+  id: string;
+  /** 작업 상태 */
+  status: LintJobStatus;
+  /** 작업 생성 시각 (ISO 8601) */
+  createdAt: string;
+  /** 실행 시작 시각 (ISO 8601) */
+  startedAt?: string;
+  /** 종료 시각 (ISO 8601, 완료/실패/취소 시) */
+  finishedAt?: string;
+  /** 결과 만료 시각 (ISO 8601, 이후 작업이 삭제됨) */
+  expiresAt?: string;
+  /** 린트 결과 (완료 시) */
+  result?: LintResultContent;
+  /** 실패 정보 (실패 시) */
+  error?: LintJobError;
+}
+
+/**
+ * API 응답: 비동기 린트 작업
+ */
+export interface LintJobResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 작업 데이터 (실패 시 null) */
+  content: LintJob | null;
+  /** 에러 상세 정보 (실패 시, 선택적) */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * 린트 결과 캐시 통계
+ */
+export interface LintCacheStats {
+  /** 캐시 적중 횟수 */
+  hits: number;
+  /** 캐시 미스 횟수 */
+  misses: number;
+  /** 적중률 (0~1, 조회가 없으면 0) */
+  hitRate: number;
+  /** 현재 저장된 결과 수 */
+  size: number;
+  /** 최대 결과 수 (0이면 캐시 비활성화) */
+  capacity: number;
+  /** 저장된 결과의 대략적인 총 크기 (바이트, 직렬화한 JSON 기준) */
+  bytes: number;
+  /** 최대 총 크기 (바이트) */
+  maxBytes: number;
+  /** 결과 유효 시간 (ms) */
+  ttlMs: number;
+}
+
+/**
+ * API 응답: 린트 결과 캐시 통계
+ */
+export interface LintCacheStatsResult {
+  /** 성공 여부 */
+  success: boolean;
+  /** 응답 메시지 */
+  message: string;
+  /** 캐시 통계 */
+  content: LintCacheStats;
+}
+
+/**
+ * 실시간 린트 세션 설정 메시지 (클라이언트 → 서버)
+ * 다시 보내면 이후 update부터 새 설정을 사용
+ */
+export interface LiveLintOpenMessage {
+  type: 'open';
+  /** CSS 문법 타입 */
+  syntax: CssSyntax;
+  /** 린트 설정 (POST /lint의 config와 같은 형식) */
+  config: LintRequest['config'];
+}
+
+/**
+ * 실시간 린트 문서 변경 메시지 (클라이언트 → 서버)
+ */
+export interface LiveLintUpdateMessage {
+  type: 'update';
+  /** 문서 버전 (이전 update보다 커야 함) */
+  version: number;
+  /** 문서 전체 코드 */
+  code: string;
+}
+
+/**
+ * 실시간 린트 클라이언트 메시지
+ */
+export type LiveLintClientMessage = LiveLintOpenMessage | LiveLintUpdateMessage;
+
+/**
+ * 실시간 린트 서버 메시지 (서버 → 클라이언트)
+ * - ready: open 메시지의 설정이 유효하여 세션이 준비됨
+ * - result: 해당 버전의 린트 결과
+ * - error: 메시지 또는 해당 버전의 린트가 실패함
+ */
+export type LiveLintServerMessage =
+  | { type: 'ready'; syntax: CssSyntax }
+  | { type: 'result'; version: number; content: LintResultContent }
+  | {
+      type: 'error';
+      /** 실패한 문서 버전 (세션/메시지 오류이면 없음) */
+      version?: number;
+      message: string;
+      code: string;
+      context?: Record<string, unknown>;
+    };
+
+/**
+ * JSON-RPC 2.0 에러 객체
+ */
+export interface JsonRpcError {
+  /** 에러 코드 (JSON-RPC/LSP 표준 코드) */
+  code: number;
+  /** 에러 메시지 */
+  message: string;
+  /** 추가 데이터 */
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 메시지 (요청, 알림, 응답 공통)
+ * - 요청: id + method, 알림: method만, 응답: id + result 또는 error
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+/**
+ * LSP 문서 위치 (0부터 시작하는 줄/문자)
+ */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * LSP 문서 범위
+ */
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+/**
+ * LSP 텍스트 편집
+ */
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+/**
+ * LSP 진단 (Stylelint 경고 하나)
+ */
+export interface LspDiagnostic {
+  range: LspRange;
+  /** 1: Error, 2: Warning */
+  severity: 1 | 2;
+  /** 규칙 이름 */
+  code: string;
+  /** 규칙 문서 링크 */
+  codeDescription?: { href: string };
+  /** 진단 출처 (항상 'stylelint') */
+  source: string;
+  message: string;
+}
+
+/**
+ * LSP 코드 액션 (자동 수정)
+ */
+export interface LspCodeAction {
+  title: string;
+  kind: string;
+  diagnostics?: LspDiagnostic[];
+  /** 문서 버전을 지정한 편집 (그 사이 문서가 바뀌었으면 클라이언트가 적용하지 않음) */
+  edit: {
+    documentChanges: Array<{
+      textDocument: { uri: string; version: number };
+      edits: LspTextEdit[];
+    }>;
   };
 }
+
+/**
+ * LSP initialize 요청의 initializationOptions
+ */
+export interface LspInitializationOptions {
+  /** 린트 설정 (POST /lint의 config와 같은 형식, 기본값: standard 프리셋) */
+  config?: LintRequest['config'];
+}
+
+/**
+ * 명령줄 클라이언트 리포트 포맷 (text: 터미널용 요약)
+ */
+export type CliReportFormat = ReportFormat | 'text';
+
+/**
+ * 명령줄 클라이언트 옵션
+ */
+export interface CliOptions {
+  /** 린트할 파일 glob 패턴 */
+  patterns: string[];
+  /** 서버 측 프리셋 이름 */
+  preset?: string;
+  /** 규칙 파일 경로 (JSON) */
+  rulesFile?: string;
+  /** 자동 수정 결과에 적용할 출력 스타일 */
+  outputStyle?: OutputStyle;
+  /** 리포트 포맷 */
+  format: CliReportFormat;
+  /** 자동 수정 결과를 파일에 다시 쓸지 여부 */
+  fix: boolean;
+  /** 원격 서버 URL (미지정 시 프로세스 내에서 린트) */
+  server?: string;
+  /** 도움말 출력 여부 */
+  help: boolean;
+}
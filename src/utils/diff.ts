@@ -0,0 +1,154 @@
+import { createTwoFilesPatch, parsePatch, structuredPatch } from 'diff';
+import { DIFF, VALIDATION_ERRORS } from '../constants';
+import { ValidationError } from '../errors';
+import { DiffHunk, LineRange, LintDiff } from '../types';
+
+/**
+ * 원본 코드와 출력 코드 사이의 diff 생성
+ * Unified diff 문자열과 UI 렌더링용 구조화된 변경 구간을 함께 반환
+ *
+ * @param original - 요청으로 전달된 원본 코드
+ * @param output - 자동 수정 및 포맷팅이 적용된 최종 출력
+ * @param fileName - diff 헤더에 표시할 파일 이름
+ * @returns Unified diff와 변경 구간 목록
+ *
+ * @example
+ * ```typescript
+ * const diff = createLintDiff('a{color:#FFF}', 'a { color: #fff; }');
+ * // diff.hunks[0]:
+ * // {
+ * //   oldStart: 1, oldLines: 1, newStart: 1, newLines: 1,
+ * //   removed: ['a{color:#FFF}'], added: ['a { color: #fff; }']
+ * // }
+ * ```
+ */
+export function createLintDiff(
+  original: string,
+  output: string,
+  fileName: string = DIFF.FILE_NAME,
+): LintDiff {
+  const options = { context: DIFF.CONTEXT_LINES };
+
+  const unified = createTwoFilesPatch(
+    `a/${fileName}`,
+    `b/${fileName}`,
+    original,
+    output,
+    undefined,
+    undefined,
+    options,
+  );
+
+  const { hunks } = structuredPatch(
+    fileName,
+    fileName,
+    original,
+    output,
+    undefined,
+    undefined,
+    options,
+  );
+
+  return {
+    unified,
+    hunks: hunks.map(
+      (hunk): DiffHunk => ({
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        newStart: hunk.newStart,
+        newLines: hunk.newLines,
+        // "\ No newline at end of file" 표시 줄은 제외
+        removed: hunk.lines
+          .filter((line) => line.startsWith('-'))
+          .map((line) => line.slice(1)),
+        added: hunk.lines
+          .filter((line) => line.startsWith('+'))
+          .map((line) => line.slice(1)),
+      }),
+    ),
+  };
+}
+
+/**
+ * unified diff에서 파일별로 추가/수정된 줄 범위 추출
+ * 변경 후 파일의 줄 번호 기준이며, 연속된 `+` 줄을 하나의 범위로 묶음.
+ * git diff의 `b/` 접두사는 제거하고, 삭제된 파일은 제외
+ *
+ * @param unifiedDiff - unified diff 문자열 (여러 파일 가능)
+ * @returns 파일 경로별 변경된 줄 범위 (삭제만 있는 파일은 빈 배열)
+ * @throws {ValidationError} 파일 변경 구간을 하나도 찾을 수 없는 경우
+ *
+ * @example
+ * ```typescript
+ * parseChangedLines(
+ *   '--- a/a.css\n+++ b/a.css\n@@ -1,2 +1,3 @@\n a {\n+  color: red;\n }\n',
+ * );
+ * // Map { 'a.css' => [{ start: 2, end: 2 }] }
+ * ```
+ */
+export function parseChangedLines(
+  unifiedDiff: string,
+): Map<string, LineRange[]> {
+  let patches: ReturnType<typeof parsePatch>;
+  try {
+    patches = parsePatch(unifiedDiff);
+  } catch (error) {
+    throw new ValidationError(VALIDATION_ERRORS.INVALID_DIFF, {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const changedLines = new Map<string, LineRange[]>();
+  let hasHunks = false;
+
+  for (const patch of patches) {
+    hasHunks ||= patch.hunks.length > 0;
+
+    const fileName = patch.newFileName;
+    if (!fileName || fileName === DIFF.NULL_FILE) {
+      continue;
+    }
+
+    const ranges: LineRange[] = [];
+    for (const hunk of patch.hunks) {
+      let line = hunk.newStart;
+
+      for (const text of hunk.lines) {
+        if (text.startsWith('+')) {
+          const last = ranges.at(-1);
+          if (last && last.end === line - 1) {
+            last.end = line;
+          } else {
+            ranges.push({ start: line, end: line });
+          }
+          line += 1;
+        } else if (text.startsWith(' ')) {
+          line += 1;
+        }
+        // 삭제 줄(-)과 "\ No newline at end of file" 표시 줄은 줄 번호를 바꾸지 않음
+      }
+    }
+
+    const path = fileName.startsWith(DIFF.NEW_FILE_PREFIX)
+      ? fileName.slice(DIFF.NEW_FILE_PREFIX.length)
+      : fileName;
+    changedLines.set(path, [...(changedLines.get(path) ?? []), ...ranges]);
+  }
+
+  if (!hasHunks) {
+    throw new ValidationError(VALIDATION_ERRORS.INVALID_DIFF);
+  }
+
+  return changedLines;
+}
+
+/**
+ * 줄이 범위 목록 중 하나에 포함되는지 확인
+ *
+ * @param line - 1부터 시작하는 줄 번호
+ * @param ranges - 줄 범위 목록
+ * @returns 포함 여부
+ */
+export function isLineInRanges(line: number, ranges: LineRange[]): boolean {
+  return ranges.some(({ start, end }) => line >= start && line <= end);
+}
@@ -1,51 +1,541 @@
-import { Root, Rule, AtRule, Comment, Declaration } from 'postcss';
+import { Root, AtRule, ChildNode, Comment, Declaration, Rule } from 'postcss';
 import { FORMATTING } from '../constants';
+import { FormatOptions, QuotePreference } from '../types';
 
 /**
- * CSS 선언들을 세미콜론으로 구분된 문자열로 포맷팅
- * @param declarations - CSS 선언 문자열 배열
- * @returns 포맷팅된 선언 문자열 (예: "color: red; margin: 0;")
+ * 출력 스타일 포맷터 (AST 루트를 포맷팅된 CSS 문자열로 변환)
  */
-function formatDeclarations(declarations: string[]): string {
-  if (declarations.length === 0) {
-    return '';
+export type CssFormatter = (root: Root, options?: FormatOptions) => string;
+
+/**
+ * 기본값을 채운 포맷 옵션
+ */
+interface ResolvedFormatOptions {
+  /** 들여쓰기 한 단계에 해당하는 문자열 */
+  indent: string;
+  /** 줄바꿈 문자열 */
+  newline: string;
+  /** 출력 끝에 줄바꿈 추가 여부 */
+  finalNewline: boolean;
+  /** 문자열 따옴표 선호 */
+  quote: QuotePreference;
+}
+
+/**
+ * 따옴표 문자열을 분리하는 패턴 (split 결과의 홀수 인덱스가 따옴표 문자열)
+ */
+const QUOTED_STRING_PATTERN = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/;
+
+/**
+ * 요청 포맷 옵션에 기본값 적용
+ *
+ * @param options - 요청 포맷 옵션
+ * @returns 기본값이 채워진 포맷 옵션
+ */
+function resolveFormatOptions(options: FormatOptions): ResolvedFormatOptions {
+  const {
+    indentSize = FORMATTING.INDENT_SIZE,
+    useTabs = false,
+    newline = FORMATTING.DEFAULT_NEWLINE,
+    finalNewline = false,
+    quote = FORMATTING.DEFAULT_QUOTE,
+  } = options;
+
+  return {
+    indent: useTabs ? '\t' : ' '.repeat(indentSize),
+    newline: FORMATTING.NEWLINES[newline],
+    finalNewline,
+    quote,
+  };
+}
+
+/**
+ * 따옴표 문자열 하나를 선호하는 따옴표로 변환
+ * 바깥 따옴표를 바꾸고 내부 이스케이프를 새 따옴표에 맞게 조정
+ *
+ * @param quoted - 따옴표를 포함한 문자열 (예: "a'b")
+ * @param quote - 사용할 따옴표 종류
+ * @returns 변환된 문자열 (예: 'a\'b')
+ */
+function convertQuotedString(
+  quoted: string,
+  quote: Exclude<QuotePreference, 'preserve'>,
+): string {
+  const target = quote === 'single' ? "'" : '"';
+  const source = quoted[0];
+  if (source === target) {
+    return quoted;
   }
-  return declarations.join('; ') + ';';
+
+  const content = quoted
+    .slice(1, -1)
+    .replace(/\\(.)|(["'])/g, (match, escaped?: string, bare?: string) => {
+      // 기존 따옴표의 이스케이프는 풀고, 새 따옴표는 이스케이프
+      if (escaped !== undefined) {
+        return escaped === source ? source : match;
+      }
+      return bare === target ? `\\${target}` : match;
+    });
+
+  return `${target}${content}${target}`;
 }
 
 /**
- * 규칙 또는 At-규칙에서 모든 CSS 선언을 수집
- * @param rule - PostCSS 규칙 또는 At-규칙 노드
- * @returns CSS 선언 문자열 배열
+ * 텍스트 안의 모든 따옴표 문자열에 따옴표 선호 적용
+ *
+ * @param text - 선택자, 값, At-규칙 머리 등
+ * @param quote - 따옴표 선호
+ * @returns 따옴표가 변환된 텍스트
  */
-function collectDeclarations(rule: Rule | AtRule): string[] {
-  const declarations: string[] = [];
-  rule.walkDecls((decl: Declaration) => {
-    declarations.push(`${decl.prop}: ${decl.value}`);
-  });
-  return declarations;
+function applyQuotePreference(text: string, quote: QuotePreference): string {
+  if (quote === 'preserve') {
+    return text;
+  }
+
+  return text
+    .split(QUOTED_STRING_PATTERN)
+    .map((part, index) =>
+      index % 2 === 1 ? convertQuotedString(part, quote) : part,
+    )
+    .join('');
+}
+
+/**
+ * 포맷터 출력 마무리
+ * 앞뒤 공백을 제거하고 줄바꿈 스타일과 마지막 줄바꿈을 적용
+ *
+ * @param output - `\n`으로 줄을 구분한 출력
+ * @param format - 포맷 옵션
+ * @returns 최종 출력 문자열
+ */
+function finalizeOutput(output: string, format: ResolvedFormatOptions): string {
+  const trimmed = output.trim().replace(/\r?\n/g, format.newline);
+  return format.finalNewline && trimmed ? trimmed + format.newline : trimmed;
 }
 
 /**
- * 노드가 @keyframes 내부에 있는지 확인
- * @keyframes 내부의 규칙은 중복 출력을 방지하기 위해 특별 처리됨
+ * @charset 규칙 출력
+ * CSS 명세상 @charset은 큰따옴표만 허용하므로 따옴표 선호를 적용하지 않음
+ */
+const CHARSET_STATEMENT = '@charset "utf-8"';
+
+/**
+ * 본문 블록을 가진 노드 (규칙 또는 본문이 있는 At-규칙)
+ */
+type BlockNode = (Rule | AtRule) & { nodes: ChildNode[] };
+
+/**
+ * 출력 스타일별 렌더링 정책
+ * 모든 스타일은 같은 재귀 프린터를 사용하고, 정책만 다르게 적용
+ */
+interface RenderPolicy {
+  /**
+   * 블록을 여러 줄로 펼칠지 결정
+   * 여러 줄로 출력 중인 부모 안의 블록에 대해서만 호출되며,
+   * 한 줄로 출력된 블록의 자식은 항상 한 줄로 이어서 출력
+   */
+  expandBlock: (node: BlockNode) => boolean;
+  /** 여러 줄 블록 안에서 블록 앞뒤를 빈 줄로 구분할지 여부 */
+  separateBlocks: boolean;
+  /** 공백, 주석(`/*!` 제외), 블록의 마지막 세미콜론을 제거할지 여부 */
+  minify: boolean;
+}
+
+/**
+ * 한 줄로 이어 붙일 출력 조각
+ */
+interface InlineItem {
+  /** 출력 문자열 (문장은 세미콜론 제외) */
+  text: string;
+  /** 세미콜론으로 끝나는 문장(선언, 본문 없는 At-규칙)인지 여부 */
+  statement: boolean;
+}
+
+/**
+ * 본문 블록을 가진 노드인지 확인
+ */
+function isBlockNode(node: ChildNode): node is BlockNode {
+  return (node.type === 'rule' || node.type === 'atrule') && !!node.nodes;
+}
+
+/**
+ * `//` 한 줄 주석인지 확인
+ * postcss-scss는 raws.inline, postcss-less는 node.inline에 표시함
  *
- * @param node - 검사할 PostCSS 노드
- * @returns @keyframes 내부에 있으면 true
+ * @param comment - 검사할 주석 노드
+ * @returns 한 줄 주석이면 true
  */
-function isInsideKeyframes(node: Rule | AtRule): boolean {
+function isInlineComment(comment: Comment): boolean {
   return (
-    node.parent !== undefined &&
-    node.parent.type === 'atrule' &&
-    (node.parent as AtRule).name === 'keyframes'
+    (comment.raws as { inline?: boolean }).inline === true ||
+    (comment as Comment & { inline?: boolean }).inline === true
+  );
+}
+
+/**
+ * 압축 출력에서 유지할 주석인지 확인
+ * 라이선스 표기 등 `/*!`로 시작하는 주석만 유지
+ */
+function isPreservedComment(comment: Comment): boolean {
+  return comment.text.startsWith('!') && !isInlineComment(comment);
+}
+
+/**
+ * 따옴표 문자열 밖의 공백을 압축
+ * 연속된 공백은 하나로 줄이고, 구분 문자 앞뒤의 공백은 제거
+ *
+ * @param text - 압축할 문자열 (선택자, 값, At-규칙 매개변수)
+ * @param separators - 앞뒤 공백을 제거할 구분 문자
+ * @returns 공백이 압축된 문자열
+ */
+function compressWhitespace(text: string, separators: string): string {
+  // 따옴표 문자열과 그 밖의 부분을 나누어 문자열 내부는 그대로 유지
+  return text
+    .split(QUOTED_STRING_PATTERN)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return part;
+      }
+
+      let compressed = part.replace(/\s+/g, ' ');
+      for (const separator of separators) {
+        compressed = compressed
+          .split(separator)
+          .map((s) => s.trim())
+          .join(separator);
+      }
+      return compressed;
+    })
+    .join('')
+    .trim();
+}
+
+/**
+ * 주석 포맷팅
+ * @param comment - PostCSS 주석 노드
+ * @param keepInline - `//` 주석을 그대로 유지할지 여부 (한 줄 출력에서는 false)
+ * @returns 포맷팅된 주석 문자열
+ */
+function formatComment(comment: Comment, keepInline: boolean): string {
+  const text = comment.text.trim();
+  return keepInline && isInlineComment(comment)
+    ? `// ${text}`
+    : `/* ${text} */`;
+}
+
+/**
+ * 선언을 "속성: 값" 문자열로 포맷팅
+ * postcss는 `!important`를 값에서 분리하므로 다시 붙여서 출력
+ *
+ * @param decl - PostCSS 선언 노드
+ * @param format - 포맷 옵션
+ * @param minify - 공백 최소화 여부
+ * @returns 세미콜론을 제외한 선언 문자열 (예: "color: red !important")
+ */
+function formatDeclaration(
+  decl: Declaration,
+  format: ResolvedFormatOptions,
+  minify: boolean,
+): string {
+  const value = applyQuotePreference(decl.value, format.quote);
+
+  if (minify) {
+    const important = decl.important ? '!important' : '';
+    return `${decl.prop}:${compressWhitespace(value, ',')}${important}`;
+  }
+
+  const important = decl.important ? ' !important' : '';
+  return `${decl.prop}: ${value}${important}`;
+}
+
+/**
+ * At-규칙의 머리 부분(본문 제외) 포맷팅
+ * Less 변수 선언(`@color: red`)과 믹스인 호출(`.mixin()`)은 AtRule로 파싱되므로
+ * 원래 형태로 복원
+ *
+ * @param atRule - PostCSS At-규칙 노드
+ * @returns At-규칙 머리 문자열 (예: "@media screen")
+ */
+function formatAtRuleHeader(atRule: AtRule): string {
+  const lessNode = atRule as AtRule & {
+    variable?: boolean;
+    mixin?: boolean;
+    value?: string;
+  };
+
+  if (lessNode.variable) {
+    return `@${atRule.name}: ${lessNode.value ?? atRule.params}`;
+  }
+
+  if (lessNode.mixin) {
+    const identifier =
+      (atRule.raws as { identifier?: string }).identifier ?? '.';
+    return `${identifier}${atRule.name}${atRule.params}`;
+  }
+
+  return atRule.params ? `@${atRule.name} ${atRule.params}` : `@${atRule.name}`;
+}
+
+/**
+ * 규칙의 선택자 또는 At-규칙의 머리 부분 포맷팅
+ *
+ * @param node - 규칙 또는 At-규칙 노드
+ * @param format - 포맷 옵션
+ * @param minify - 공백 최소화 여부
+ * @returns 블록 앞에 출력할 머리 문자열
+ */
+function formatHeader(
+  node: Rule | AtRule,
+  format: ResolvedFormatOptions,
+  minify: boolean,
+): string {
+  const header = applyQuotePreference(
+    node.type === 'rule' ? node.selector : formatAtRuleHeader(node),
+    format.quote,
   );
+
+  if (!minify) {
+    return header;
+  }
+
+  // 선택자는 결합자 주변 공백까지 제거
+  return compressWhitespace(header, node.type === 'rule' ? ',>+~' : ',');
 }
 
+/**
+ * 블록이 아닌 노드를 문장으로 포맷팅 (세미콜론 제외)
+ *
+ * @param node - 선언 또는 본문 없는 At-규칙
+ * @param format - 포맷 옵션
+ * @param minify - 공백 최소화 여부
+ * @returns 문장 문자열
+ */
+function formatStatement(
+  node: Declaration | AtRule,
+  format: ResolvedFormatOptions,
+  minify: boolean,
+): string {
+  if (node.type === 'decl') {
+    return formatDeclaration(node, format, minify);
+  }
+
+  if (node.name === 'charset') {
+    return CHARSET_STATEMENT;
+  }
+
+  // 본문이 없는 At-규칙 (@include, @import, @use 등)
+  return formatHeader(node, format, minify);
+}
+
+/**
+ * 노드를 한 줄 출력 조각으로 변환
+ *
+ * @param node - 변환할 노드
+ * @param format - 포맷 옵션
+ * @param policy - 렌더링 정책
+ * @returns 출력 조각 (압축 출력에서 제거되는 주석이면 null)
+ */
+function printInlineItem(
+  node: ChildNode,
+  format: ResolvedFormatOptions,
+  policy: RenderPolicy,
+): InlineItem | null {
+  if (node.type === 'comment') {
+    if (!policy.minify) {
+      return { text: formatComment(node, false), statement: false };
+    }
+    return isPreservedComment(node)
+      ? { text: `/*${node.text}*/`, statement: false }
+      : null;
+  }
+
+  if (!isBlockNode(node)) {
+    return {
+      text: formatStatement(node, format, policy.minify),
+      statement: true,
+    };
+  }
+
+  return { text: printInlineBlock(node, format, policy), statement: false };
+}
+
+/**
+ * 노드 목록을 한 줄로 이어서 출력
+ * 압축 출력에서는 문장 사이에만 세미콜론을 넣어 블록의 마지막 세미콜론을 생략
+ *
+ * @param nodes - 출력할 노드 목록
+ * @param format - 포맷 옵션
+ * @param policy - 렌더링 정책
+ * @returns 한 줄 문자열
+ */
+function printInlineNodes(
+  nodes: ChildNode[],
+  format: ResolvedFormatOptions,
+  policy: RenderPolicy,
+): string {
+  const items = nodes
+    .map((node) => printInlineItem(node, format, policy))
+    .filter((item): item is InlineItem => item !== null);
+
+  if (!policy.minify) {
+    return items
+      .map((item) => (item.statement ? `${item.text};` : item.text))
+      .join(' ');
+  }
+
+  return items
+    .map((item, index) =>
+      index > 0 && items[index - 1].statement ? `;${item.text}` : item.text,
+    )
+    .join('');
+}
+
+/**
+ * 블록을 한 줄로 출력 (예: "a { color: red; }")
+ *
+ * @param node - 출력할 블록 노드
+ * @param format - 포맷 옵션
+ * @param policy - 렌더링 정책
+ * @returns 한 줄 문자열
+ */
+function printInlineBlock(
+  node: BlockNode,
+  format: ResolvedFormatOptions,
+  policy: RenderPolicy,
+): string {
+  const header = formatHeader(node, format, policy.minify);
+  const body = printInlineNodes(node.nodes, format, policy);
+
+  if (policy.minify) {
+    return `${header}{${body}}`;
+  }
+
+  return body ? `${header} { ${body} }` : `${header} {}`;
+}
+
+/**
+ * 노드 목록을 한 줄에 하나씩 들여써서 출력
+ * 정책이 펼치기로 한 블록은 자식을 한 단계 더 들여써서 재귀 출력
+ *
+ * @param nodes - 출력할 노드 목록
+ * @param depth - 들여쓰기 깊이
+ * @param format - 포맷 옵션
+ * @param policy - 렌더링 정책
+ * @returns 출력 줄 목록
+ */
+function printMultilineNodes(
+  nodes: ChildNode[],
+  depth: number,
+  format: ResolvedFormatOptions,
+  policy: RenderPolicy,
+): string[] {
+  const indent = format.indent.repeat(depth);
+  const lines: string[] = [];
+
+  nodes.forEach((node, index) => {
+    // 블록과 이웃한 노드 사이에 빈 줄 (블록 바로 앞의 주석은 블록에 붙여 둠)
+    const previous = index > 0 ? nodes[index - 1] : undefined;
+    const next = nodes[index + 1];
+    const startsBlock =
+      isBlockNode(node) ||
+      (node.type === 'comment' && next !== undefined && isBlockNode(next));
+    if (
+      policy.separateBlocks &&
+      previous &&
+      previous.type !== 'comment' &&
+      (isBlockNode(previous) || startsBlock)
+    ) {
+      lines.push('');
+    }
+
+    if (node.type === 'comment') {
+      lines.push(`${indent}${formatComment(node, true)}`);
+      return;
+    }
+
+    if (!isBlockNode(node)) {
+      lines.push(`${indent}${formatStatement(node, format, false)};`);
+      return;
+    }
+
+    if (node.nodes.length === 0 || !policy.expandBlock(node)) {
+      lines.push(`${indent}${printInlineBlock(node, format, policy)}`);
+      return;
+    }
+
+    lines.push(`${indent}${formatHeader(node, format, false)} {`);
+    lines.push(...printMultilineNodes(node.nodes, depth + 1, format, policy));
+    lines.push(`${indent}}`);
+  });
+
+  return lines;
+}
+
+/**
+ * 렌더링 정책에 따라 AST 전체를 출력
+ * 모든 노드 타입(선언, 규칙, At-규칙, 주석)을 깊이에 관계없이 한 번씩 방문
+ *
+ * @param root - PostCSS AST 루트 노드
+ * @param options - 포맷 옵션
+ * @param policy - 렌더링 정책
+ * @returns 포맷팅된 CSS 문자열
+ */
+function printRoot(
+  root: Root,
+  options: FormatOptions,
+  policy: RenderPolicy,
+): string {
+  const format = resolveFormatOptions(options);
+  const output = policy.minify
+    ? printInlineNodes(root.nodes, format, policy)
+    : printMultilineNodes(root.nodes, 0, format, policy).join('\n');
+
+  return finalizeOutput(output, format);
+}
+
+/**
+ * Compact 정책: 규칙마다 한 줄
+ * 다른 블록을 담은 At-규칙(@media, @supports, @container, @layer, @keyframes 등)만
+ * 펼쳐서 안쪽 규칙을 한 줄씩 들여씀
+ */
+const COMPACT_POLICY: RenderPolicy = {
+  expandBlock: (node) => node.type === 'atrule' && node.nodes.some(isBlockNode),
+  separateBlocks: false,
+  minify: false,
+};
+
+/**
+ * Nested 정책: 모든 블록을 펼쳐서 중첩 단계마다 들여씀
+ */
+const NESTED_POLICY: RenderPolicy = {
+  expandBlock: () => true,
+  separateBlocks: false,
+  minify: false,
+};
+
+/**
+ * Expanded 정책: Nested 정책에 블록 사이 빈 줄을 더함
+ */
+const EXPANDED_POLICY: RenderPolicy = {
+  ...NESTED_POLICY,
+  separateBlocks: true,
+};
+
+/**
+ * Compressed 정책: 모든 블록을 공백 없이 한 줄로 출력
+ */
+const COMPRESSED_POLICY: RenderPolicy = {
+  expandBlock: () => false,
+  separateBlocks: false,
+  minify: true,
+};
+
 /**
  * Compact 형식으로 CSS 포맷팅
  * 모든 선언을 한 줄에 표시하여 공간을 절약
  *
  * @param root - PostCSS AST 루트 노드
+ * @param options - 포맷 옵션 (들여쓰기, 줄바꿈, 따옴표)
  * @returns Compact 형식의 CSS 문자열
  *
  * @example
@@ -60,48 +550,11 @@ function isInsideKeyframes(node: Rule | AtRule): boolean {
  * // "body { color: red; margin: 0; }"
  * ```
  */
-export function compactFormatter(root: Root): string {
-  let result = '';
-
-  root.walk((node) => {
-    if (node.type === 'rule') {
-      const rule = node as Rule;
-      if (isInsideKeyframes(rule)) {
-        return;
-      }
-      const declarations = collectDeclarations(rule);
-      if (declarations.length > 0) {
-        result += `${rule.selector} { ${formatDeclarations(declarations)} }\n`;
-      } else {
-        result += `${rule.selector} {}\n`;
-      }
-    } else if (node.type === 'atrule') {
-      const atRule = node as AtRule;
-
-      if (atRule.name === 'charset') {
-        result += `@charset "utf-8";\n`;
-      } else if (atRule.name === 'keyframes' || atRule.name === 'media') {
-        result += `@${atRule.name} ${atRule.params} {\n`;
-        atRule.walkRules((rule: Rule) => {
-          const declarations = collectDeclarations(rule);
-          result += `${FORMATTING.INDENT}${rule.selector} { ${formatDeclarations(declarations)} }\n`;
-        });
-        result += '}\n';
-      } else {
-        const declarations = collectDeclarations(atRule);
-        if (declarations.length > 0) {
-          result += `@${atRule.name} ${atRule.params} { ${formatDeclarations(declarations)} }\n`;
-        } else {
-          result += `@${atRule.name} ${atRule.params} {}\n`;
-        }
-      }
-    } else if (node.type === 'comment') {
-      const comment = node as Comment;
-      result += `/* ${comment.text.trim()} */\n`;
-    }
-  });
-
-  return result.trim();
+export function compactFormatter(
+  root: Root,
+  options: FormatOptions = {},
+): string {
+  return printRoot(root, options, COMPACT_POLICY);
 }
 
 /**
@@ -109,6 +562,7 @@ export function compactFormatter(root: Root): string {
  * 계층 구조를 들여쓰기로 표현하여 가독성을 높임
  *
  * @param root - PostCSS AST 루트 노드
+ * @param options - 포맷 옵션 (들여쓰기, 줄바꿈, 따옴표)
  * @returns Nested 형식의 CSS 문자열
  *
  * @example
@@ -123,67 +577,63 @@ export function compactFormatter(root: Root): string {
  * // }"
  * ```
  */
-export function nestedFormatter(root: Root): string {
-  let result = '';
-
-  /**
-   * 규칙을 중첩된 형식으로 포맷팅 (내부 함수)
-   * @param rule - 포맷팅할 규칙
-   * @param indentLevel - 들여쓰기 레벨
-   */
-  function formatRule(rule: Rule, indentLevel: number): void {
-    const indent = FORMATTING.INDENT.repeat(indentLevel);
-    result += `${indent}${rule.selector} {\n`;
-
-    rule.walkDecls((decl: Declaration) => {
-      result += `${indent}${FORMATTING.INDENT}${decl.prop}: ${decl.value};\n`;
-    });
-
-    rule.walkRules((nestedRule: Rule) => {
-      formatRule(nestedRule, indentLevel + 1);
-    });
-
-    result += `${indent}}\n`;
-  }
-
-  /**
-   * At-규칙을 중첩된 형식으로 포맷팅 (내부 함수)
-   * @param atRule - 포맷팅할 At-규칙
-   * @param indentLevel - 들여쓰기 레벨
-   */
-  function formatAtRule(atRule: AtRule, indentLevel: number): void {
-    const indent = FORMATTING.INDENT.repeat(indentLevel);
-
-    if (atRule.name === 'charset') {
-      result += `${indent}@charset "utf-8";\n`;
-    } else if (atRule.name === 'keyframes' || atRule.name === 'media') {
-      result += `${indent}@${atRule.name} ${atRule.params} {\n`;
-      atRule.walkRules((rule: Rule) => {
-        formatRule(rule, indentLevel + 1);
-      });
-      result += `${indent}}\n`;
-    } else {
-      result += `${indent}@${atRule.name} ${atRule.params} {\n`;
-      atRule.walkDecls((decl: Declaration) => {
-        result += `${indent}${FORMATTING.INDENT}${decl.prop}: ${decl.value};\n`;
-      });
-      result += `${indent}}\n`;
-    }
-  }
+export function nestedFormatter(
+  root: Root,
+  options: FormatOptions = {},
+): string {
+  return printRoot(root, options, NESTED_POLICY);
+}
 
-  root.walk((node) => {
-    if (node.type === 'rule') {
-      if (isInsideKeyframes(node as Rule)) {
-        return;
-      }
-      formatRule(node as Rule, 0);
-    } else if (node.type === 'atrule') {
-      formatAtRule(node as AtRule, 0);
-    } else if (node.type === 'comment') {
-      const comment = node as Comment;
-      result += `/* ${comment.text.trim()} */\n`;
-    }
-  });
+/**
+ * Expanded 형식으로 CSS 포맷팅
+ * Nested 형식과 같이 들여쓰되, 규칙 블록 사이를 빈 줄로 구분
+ *
+ * @param root - PostCSS AST 루트 노드
+ * @param options - 포맷 옵션 (들여쓰기, 줄바꿈, 따옴표)
+ * @returns Expanded 형식의 CSS 문자열
+ *
+ * @example
+ * ```typescript
+ * // 입력:
+ * // a { color: red; } b { margin: 0; }
+ *
+ * // 출력:
+ * // "a {
+ * //   color: red;
+ * // }
+ * //
+ * // b {
+ * //   margin: 0;
+ * // }"
+ * ```
+ */
+export function expandedFormatter(
+  root: Root,
+  options: FormatOptions = {},
+): string {
+  return printRoot(root, options, EXPANDED_POLICY);
+}
 
-  return result.trim();
+/**
+ * Compressed 형식으로 CSS 포맷팅
+ * 미리보기용으로 공백, 주석(`/*!` 제외), 블록의 마지막 세미콜론을 제거
+ *
+ * @param root - PostCSS AST 루트 노드
+ * @param options - 포맷 옵션 (따옴표, 마지막 줄바꿈)
+ * @returns Compressed 형식의 CSS 문자열
+ *
+ * @example
+ * ```typescript
+ * // 입력:
+ * // a > b, .c { color: red; margin: 0 auto; }
+ *
+ * // 출력:
+ * // "a>b,.c{color:red;margin:0 auto}"
+ * ```
+ */
+export function compressedFormatter(
+  root: Root,
+  options: FormatOptions = {},
+): string {
+  return printRoot(root, options, COMPRESSED_POLICY);
 }
@@ -0,0 +1,158 @@
+import postcssHtml from 'postcss-html';
+import type { Root } from 'postcss';
+import { FORMATTING } from '../constants';
+import { FormatOptions } from '../types';
+import { CssFormatter } from './formatters';
+
+/**
+ * 포맷팅할 수 있는 <style> 블록의 lang 속성 값
+ * sass(들여쓰기 문법)와 그 밖의 언어는 원본을 유지
+ */
+const FORMATTABLE_STYLE_LANGS: readonly string[] = ['css', 'scss', 'less'];
+
+/**
+ * HTML 문서 파서 (각 <style> 블록과 style 속성을 PostCSS Root로 파싱)
+ */
+const htmlSyntax = postcssHtml();
+
+/**
+ * <style> 닫는 태그 패턴 (대소문자 구분 없음)
+ */
+const STYLE_CLOSE_TAG_PATTERN = /<\/style\s*>/gi;
+
+/**
+ * HTML 스타일 블록 포맷팅 결과
+ */
+export interface HtmlFormatResult {
+  /** <style> 블록만 다시 포맷팅된 HTML */
+  output: string;
+  /** 내용이 바뀐 <style> 블록 수 */
+  formattedBlocks: number;
+}
+
+/**
+ * postcss-html이 파싱한 <style> 블록 (소스 위치 포함)
+ */
+interface StyleBlock {
+  root: Root;
+  start: number;
+  end: number;
+}
+
+/**
+ * 문서에서 포맷팅 대상인 <style> 블록 찾기
+ * style 속성(inline)과 위치 정보가 없는 블록은 제외
+ *
+ * @param html - HTML 문서
+ * @returns 문서 순서대로 정렬된 블록 목록
+ */
+function findStyleBlocks(html: string): StyleBlock[] {
+  const document = htmlSyntax.parse?.(html) as unknown as
+    | { nodes: Root[] }
+    | undefined;
+
+  return (document?.nodes ?? []).flatMap((root): StyleBlock[] => {
+    const source = root.source as
+      | (Root['source'] & { inline?: boolean; lang?: string })
+      | undefined;
+    const start = source?.start?.offset;
+    const end = source?.end?.offset;
+
+    if (
+      !source ||
+      source.inline ||
+      start === undefined ||
+      end === undefined ||
+      !FORMATTABLE_STYLE_LANGS.includes(source.lang ?? 'css')
+    ) {
+      return [];
+    }
+
+    return [{ root, start, end }];
+  });
+}
+
+/**
+ * 오프셋이 속한 줄의 앞쪽 공백(들여쓰기) 반환
+ */
+function lineIndentAt(html: string, offset: number): string {
+  const lineStart = html.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(html.slice(lineStart))?.[0] ?? '';
+}
+
+/**
+ * HTML 문서 안의 <style> 블록에 출력 스타일 적용
+ * 각 블록의 내용만 태그 기준으로 한 단계 들여써서 교체하고,
+ * 나머지 문서(태그, 마크업, style 속성)는 한 바이트도 바꾸지 않음
+ *
+ * @param html - 자동 수정이 적용된 HTML 문서
+ * @param formatter - 적용할 출력 스타일 포맷터
+ * @param options - 포맷 옵션 (들여쓰기, 줄바꿈, 따옴표)
+ * @returns 포맷팅된 HTML과 바뀐 블록 수
+ *
+ * @example
+ * ```typescript
+ * const { output } = formatHtmlStyleBlocks(
+ *   '<div>\n  <style>a{color:red}</style>\n</div>',
+ *   nestedFormatter,
+ * );
+ * // <div>
+ * //   <style>
+ * //     a {
+ * //       color: red;
+ * //     }
+ * //   </style>
+ * // </div>
+ * ```
+ */
+export function formatHtmlStyleBlocks(
+  html: string,
+  formatter: CssFormatter,
+  options: FormatOptions = {},
+): HtmlFormatResult {
+  const newline =
+    FORMATTING.NEWLINES[options.newline ?? FORMATTING.DEFAULT_NEWLINE];
+  const indentUnit = options.useTabs
+    ? '\t'
+    : ' '.repeat(options.indentSize ?? FORMATTING.INDENT_SIZE);
+
+  let output = html;
+  let formattedBlocks = 0;
+
+  // 뒤쪽 블록부터 교체하여 앞쪽 블록의 오프셋을 유지
+  for (const block of findStyleBlocks(html).reverse()) {
+    // 여는 태그 끝(>)부터 닫는 태그 앞까지를 블록 내용으로 교체
+    const contentStart = html.lastIndexOf('>', block.start - 1) + 1;
+    STYLE_CLOSE_TAG_PATTERN.lastIndex = block.end;
+    const closeTag = STYLE_CLOSE_TAG_PATTERN.exec(html);
+    if (contentStart === 0 || !closeTag) {
+      continue;
+    }
+    const contentEnd = closeTag.index;
+
+    // 블록별 줄바꿈/마지막 줄바꿈은 여기서 처리하므로 포맷터에는 기본값 사용
+    const css = formatter(block.root, {
+      ...options,
+      newline: 'lf',
+      finalNewline: false,
+    });
+    if (!css) {
+      continue;
+    }
+
+    const tagIndent = lineIndentAt(html, contentStart);
+    const body = css
+      .split('\n')
+      .map((line) => (line ? `${tagIndent}${indentUnit}${line}` : line))
+      .join(newline);
+    const replacement = `${newline}${body}${newline}${tagIndent}`;
+
+    if (replacement !== html.slice(contentStart, contentEnd)) {
+      output =
+        output.slice(0, contentStart) + replacement + output.slice(contentEnd);
+      formattedBlocks++;
+    }
+  }
+
+  return { output, formattedBlocks };
+}
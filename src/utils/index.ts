@@ -2,7 +2,14 @@
  * 유틸리티 모듈 Barrel Export
  */
 
+export * from './diff';
 export * from './formatters';
+export * from './htmlFormatter';
 export * from './logger';
 export * from './validation';
 export * from './rateLimiter';
+export * from './reporters';
+export * from './stableStringify';
+export * from './suggestion';
+export * from './lruCache';
+export * from './jsonRpc';
@@ -0,0 +1,85 @@
+/**
+ * JSON-RPC 메시지 프레이밍 유틸리티
+ * LSP의 stdio 전송 형식(Content-Length 헤더 + JSON 본문)을 읽고 씀
+ */
+import { JsonRpcMessage } from '../types';
+
+/**
+ * 헤더와 본문 구분자
+ */
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * Content-Length 헤더 패턴
+ */
+const CONTENT_LENGTH_PATTERN = /^Content-Length:\s*(\d+)\s*$/im;
+
+/**
+ * JSON-RPC 메시지를 Content-Length 헤더가 붙은 프레임으로 인코딩
+ *
+ * @param message - 보낼 메시지
+ * @returns 헤더와 본문을 합친 프레임
+ *
+ * @example
+ * ```typescript
+ * encodeJsonRpcMessage({ jsonrpc: '2.0', id: 1, result: null });
+ * // 'Content-Length: 36\r\n\r\n{"jsonrpc":"2.0","id":1,"result":null}'
+ * ```
+ */
+export function encodeJsonRpcMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_DELIMITER}${body}`;
+}
+
+/**
+ * 스트림 청크에서 JSON-RPC 메시지를 읽는 리더
+ * 청크 경계가 프레임 경계와 맞지 않아도 완성된 메시지만 반환
+ */
+export class JsonRpcMessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * 청크를 추가하고 완성된 메시지 반환
+   * JSON 파싱에 실패한 프레임은 null로 반환 (호출자가 Parse error로 응답)
+   *
+   * @param chunk - 입력 스트림에서 읽은 데이터
+   * @returns 완성된 메시지 목록 (도착 순서)
+   */
+  push(chunk: Uint8Array | string): Array<JsonRpcMessage | null> {
+    this.buffer = Buffer.concat([this.buffer, Buffer.from(chunk)]);
+    const messages: Array<JsonRpcMessage | null> = [];
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        break;
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const contentLength = CONTENT_LENGTH_PATTERN.exec(header)?.[1];
+
+      // Content-Length가 없는 헤더는 버리고 다음 프레임부터 읽음
+      if (contentLength === undefined) {
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(contentLength);
+      if (this.buffer.length < bodyEnd) {
+        break;
+      }
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      try {
+        messages.push(JSON.parse(body) as JsonRpcMessage);
+      } catch {
+        messages.push(null);
+      }
+    }
+
+    return messages;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * LRU 캐시 유틸리티
+ * Map의 삽입 순서를 이용한 간단한 LRU + TTL 캐시 구현
+ */
+
+interface CacheEntry<V> {
+  /** 캐시된 값 */
+  value: V;
+  /** 만료 시각 (ms) */
+  expiresAt: number;
+  /** 값의 대략적인 크기 (바이트) */
+  bytes: number;
+}
+
+/**
+ * 캐시 통계
+ */
+export interface LRUCacheStats {
+  /** 캐시 적중 횟수 */
+  hits: number;
+  /** 캐시 미스 횟수 */
+  misses: number;
+  /** 현재 저장된 항목 수 */
+  size: number;
+  /** 최대 항목 수 */
+  capacity: number;
+  /** 저장된 항목의 대략적인 총 크기 (바이트) */
+  bytes: number;
+  /** 최대 총 크기 (바이트) */
+  maxBytes: number;
+  /** 항목 유효 시간 (밀리초) */
+  ttlMs: number;
+}
+
+/**
+ * LRU Cache 클래스
+ * 항목 수나 총 크기가 한도를 넘으면 가장 오래 사용되지 않은 항목부터 제거하고,
+ * TTL이 지난 항목은 조회 시 제거
+ */
+export class LRUCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private bytes = 0;
+  private readonly capacity: number;
+  private readonly ttlMs: number;
+  private readonly maxBytes: number;
+  private readonly sizeOf: (value: V) => number;
+
+  /**
+   * @param capacity - 최대 항목 수 (0이면 캐시 비활성화)
+   * @param ttlMs - 항목 유효 시간 (밀리초)
+   * @param maxBytes - 최대 총 크기 (바이트, 생략 시 무제한)
+   * @param sizeOf - 값의 대략적인 크기를 계산하는 함수 (maxBytes 지정 시 사용)
+   */
+  constructor(
+    capacity: number,
+    ttlMs: number,
+    maxBytes: number = Infinity,
+    sizeOf: (value: V) => number = () => 0,
+  ) {
+    this.capacity = capacity;
+    this.ttlMs = ttlMs;
+    this.maxBytes = maxBytes;
+    this.sizeOf = sizeOf;
+  }
+
+  /**
+   * 캐시 사용 여부
+   */
+  get enabled(): boolean {
+    return this.capacity > 0;
+  }
+
+  /**
+   * 항목 조회 (적중 시 가장 최근 사용 항목으로 갱신)
+   * @param key - 캐시 키
+   * @returns 캐시된 값 (없거나 만료된 경우 undefined)
+   */
+  get(key: string): V | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // 삭제 후 다시 넣어 가장 최근 사용 항목으로 이동
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return entry.value;
+  }
+
+  /**
+   * 유효한 항목이 있는지 확인 (적중/미스 통계와 사용 순서는 바꾸지 않음)
+   * @param key - 캐시 키
+   * @returns 만료되지 않은 항목이 있으면 true
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && entry.expiresAt > Date.now();
+  }
+
+  /**
+   * 항목 저장 (용량 초과 시 가장 오래 사용되지 않은 항목 제거)
+   * 값 하나가 maxBytes보다 크면 다른 항목을 모두 밀어내지 않도록 저장하지 않음
+   *
+   * @param key - 캐시 키
+   * @param value - 저장할 값
+   */
+  set(key: string, value: V): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const bytes = this.maxBytes === Infinity ? 0 : this.sizeOf(value);
+
+    this.delete(key);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs, bytes });
+    this.bytes += bytes;
+
+    while (this.entries.size > this.capacity || this.bytes > this.maxBytes) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * 항목 삭제
+   * @param key - 캐시 키
+   */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * 모든 항목과 통계 초기화
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.bytes = 0;
+  }
+
+  /**
+   * 캐시 통계 조회
+   * @returns 적중/미스 횟수와 용량 정보
+   */
+  stats(): LRUCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      capacity: this.capacity,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      ttlMs: this.ttlMs,
+    };
+  }
+}
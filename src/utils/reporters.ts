@@ -0,0 +1,436 @@
+import { REPORT } from '../constants';
+import {
+  LintBatchFileResult,
+  ReportFile,
+  ReportFormat,
+  StylelintWarning,
+} from '../types';
+
+/**
+ * 리포트 직렬화 함수 타입
+ *
+ * @param files - 파일별 린트 결과
+ * @param toolVersion - 리포트에 표시할 Stylelint 버전
+ * @returns 직렬화된 리포트 문자열
+ */
+export type ReportSerializer = (
+  files: ReportFile[],
+  toolVersion: string,
+) => string;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="utf-8"?>';
+
+/**
+ * XML 속성 및 텍스트에 사용할 수 있도록 특수 문자 이스케이프
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 속성 객체를 XML 속성 문자열로 변환 (undefined 값은 생략)
+ */
+function toXmlAttributes(
+  attributes: Record<string, string | number | undefined>,
+): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * 경고 위치를 `path:line:column` 형식으로 표시
+ */
+function formatLocation(path: string, warning: StylelintWarning): string {
+  return `${path}:${warning.line}:${warning.column}`;
+}
+
+/**
+ * SARIF 2.1.0 리포트 생성
+ * 규칙별 메타데이터는 tool.driver.rules에, 배치에서 실패한 파일은
+ * invocations의 toolExecutionNotifications에 담김
+ */
+export const sarifReporter: ReportSerializer = (files, toolVersion) => {
+  const ruleIndexes = new Map<string, number>();
+  const rules: Array<{ id: string; helpUri?: string }> = [];
+
+  for (const { warnings } of files) {
+    for (const warning of warnings) {
+      if (!ruleIndexes.has(warning.rule)) {
+        ruleIndexes.set(warning.rule, rules.length);
+        rules.push({
+          id: warning.rule,
+          ...(warning.url && { helpUri: warning.url }),
+        });
+      }
+    }
+  }
+
+  const results = files.flatMap(({ path, warnings }) =>
+    warnings.map((warning) => ({
+      ruleId: warning.rule,
+      ruleIndex: ruleIndexes.get(warning.rule),
+      level: warning.severity,
+      message: { text: warning.text },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: path },
+            region: {
+              startLine: warning.line,
+              startColumn: warning.column,
+              ...(warning.endLine !== undefined && {
+                endLine: warning.endLine,
+              }),
+              ...(warning.endColumn !== undefined && {
+                endColumn: warning.endColumn,
+              }),
+            },
+          },
+        },
+      ],
+    })),
+  );
+
+  const failedFiles = files.filter((file) => file.error !== undefined);
+
+  return JSON.stringify(
+    {
+      $schema: REPORT.SARIF_SCHEMA,
+      version: REPORT.SARIF_VERSION,
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: REPORT.TOOL_NAME,
+              version: toolVersion,
+              informationUri: REPORT.TOOL_URI,
+              rules,
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful: failedFiles.length === 0,
+              toolExecutionNotifications: failedFiles.map(
+                ({ path, error }) => ({
+                  level: 'error',
+                  message: { text: error },
+                  locations: [
+                    { physicalLocation: { artifactLocation: { uri: path } } },
+                  ],
+                }),
+              ),
+            },
+          ],
+          results,
+        },
+      ],
+    },
+    null,
+    2,
+  );
+};
+
+/**
+ * Checkstyle XML 리포트 생성
+ * 경고마다 `<error>` 요소를 만들고 source에 규칙 이름을 담음
+ */
+export const checkstyleReporter: ReportSerializer = (files) => {
+  const lines = [XML_DECLARATION, '<checkstyle version="4.3">'];
+
+  for (const { path, warnings, error } of files) {
+    lines.push(`  <file${toXmlAttributes({ name: path })}>`);
+
+    if (error !== undefined) {
+      lines.push(
+        `    <error${toXmlAttributes({
+          severity: 'error',
+          message: error,
+          source: REPORT.TOOL_NAME,
+        })}/>`,
+      );
+    }
+
+    for (const warning of warnings) {
+      lines.push(
+        `    <error${toXmlAttributes({
+          line: warning.line,
+          column: warning.column,
+          severity: warning.severity,
+          message: warning.text,
+          source: `${REPORT.TOOL_NAME}.rules.${warning.rule}`,
+        })}/>`,
+      );
+    }
+
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * JUnit XML 리포트 생성
+ * 파일마다 testsuite를, 경고마다 실패한 testcase를 만들고
+ * 경고가 없는 파일은 통과한 testcase 하나로 표시
+ */
+export const junitReporter: ReportSerializer = (files) => {
+  const suites = files.map(({ path, warnings, error }) => {
+    const testcases: string[] = [];
+
+    if (error !== undefined) {
+      testcases.push(
+        `    <testcase${toXmlAttributes({ name: path, classname: REPORT.TOOL_NAME })}>`,
+        `      <error${toXmlAttributes({ message: error })}/>`,
+        '    </testcase>',
+      );
+    } else if (warnings.length === 0) {
+      testcases.push(
+        `    <testcase${toXmlAttributes({ name: path, classname: REPORT.TOOL_NAME })}/>`,
+      );
+    }
+
+    for (const warning of warnings) {
+      testcases.push(
+        `    <testcase${toXmlAttributes({
+          name: `${formatLocation(path, warning)} ${warning.rule}`,
+          classname: `${REPORT.TOOL_NAME}.rules.${warning.rule}`,
+        })}>`,
+        `      <failure${toXmlAttributes({
+          message: warning.text,
+          type: warning.severity,
+        })}>${escapeXml(`${formatLocation(path, warning)} ${warning.text}`)}</failure>`,
+        '    </testcase>',
+      );
+    }
+
+    const counts = {
+      tests: Math.max(warnings.length + (error !== undefined ? 1 : 0), 1),
+      failures: warnings.length,
+      errors: error !== undefined ? 1 : 0,
+    };
+
+    return {
+      counts,
+      lines: [
+        `  <testsuite${toXmlAttributes({ name: path, ...counts })}>`,
+        ...testcases,
+        '  </testsuite>',
+      ],
+    };
+  });
+
+  const totals = suites.reduce(
+    (sum, { counts }) => ({
+      tests: sum.tests + counts.tests,
+      failures: sum.failures + counts.failures,
+      errors: sum.errors + counts.errors,
+    }),
+    { tests: 0, failures: 0, errors: 0 },
+  );
+
+  return `${[
+    XML_DECLARATION,
+    `<testsuites${toXmlAttributes({ name: REPORT.TOOL_NAME, ...totals })}>`,
+    ...suites.flatMap(({ lines }) => lines),
+    '</testsuites>',
+  ].join('\n')}\n`;
+};
+
+/**
+ * GitHub Actions 워크플로 명령의 메시지 부분 이스케이프
+ */
+function escapeCommandData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * GitHub Actions 워크플로 명령의 속성 값 이스케이프
+ */
+function escapeCommandProperty(value: string): string {
+  return escapeCommandData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * GitHub Actions 워크플로 명령 한 줄 생성
+ */
+function formatCommand(
+  command: 'error' | 'warning',
+  properties: Record<string, string | number | undefined>,
+  message: string,
+): string {
+  const propertyList = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeCommandProperty(String(value))}`)
+    .join(',');
+
+  return `::${command} ${propertyList}::${escapeCommandData(message)}`;
+}
+
+/**
+ * GitHub Actions 어노테이션 리포트 생성
+ * 경고마다 `::error` 또는 `::warning` 명령 한 줄을 출력
+ */
+export const githubReporter: ReportSerializer = (files) => {
+  const lines = files.flatMap(({ path, warnings, error }) => [
+    ...(error !== undefined
+      ? [formatCommand('error', { file: path, title: REPORT.TOOL_NAME }, error)]
+      : []),
+    ...warnings.map((warning) =>
+      formatCommand(
+        warning.severity,
+        {
+          file: path,
+          line: warning.line,
+          col: warning.column,
+          endLine: warning.endLine,
+          endColumn: warning.endColumn,
+          title: warning.rule,
+        },
+        warning.text,
+      ),
+    ),
+  ]);
+
+  return lines.map((line) => `${line}\n`).join('');
+};
+
+/**
+ * 터미널용 텍스트 리포트 생성 (명령줄 클라이언트 기본 포맷)
+ * 문제가 있는 파일마다 경로 아래에 `줄:열  심각도  메시지`를 정렬해 출력하고
+ * 마지막에 문제 수를 요약. 문제가 없으면 빈 문자열
+ */
+export const textReporter: ReportSerializer = (files) => {
+  const lines: string[] = [];
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const { path, warnings, error } of files) {
+    if (error === undefined && warnings.length === 0) {
+      continue;
+    }
+
+    lines.push(path);
+
+    if (error !== undefined) {
+      errorCount += 1;
+      lines.push(`  error  ${error}`);
+    }
+
+    const locations = warnings.map(
+      (warning) => `${warning.line}:${warning.column}`,
+    );
+    const locationWidth = Math.max(0, ...locations.map(({ length }) => length));
+
+    warnings.forEach((warning, index) => {
+      if (warning.severity === 'error') {
+        errorCount += 1;
+      } else {
+        warningCount += 1;
+      }
+
+      lines.push(
+        `  ${locations[index].padEnd(locationWidth)}  ${warning.severity.padEnd(7)}  ${warning.text}`,
+      );
+    });
+
+    lines.push('');
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+
+  lines.push(
+    `문제 ${errorCount + warningCount}개 (오류 ${errorCount}개, 경고 ${warningCount}개)`,
+  );
+  return lines.map((line) => `${line}\n`).join('');
+};
+
+/**
+ * 리포트 포맷별 직렬화 함수 (json은 기본 응답을 그대로 사용)
+ */
+export const REPORTERS: Record<
+  Exclude<ReportFormat, 'json'>,
+  ReportSerializer
+> = {
+  sarif: sarifReporter,
+  checkstyle: checkstyleReporter,
+  junit: junitReporter,
+  github: githubReporter,
+};
+
+/**
+ * 배치 린트의 파일별 결과를 리포트 입력으로 변환
+ * 실패한 파일은 경고 없이 파일 단위 에러로 표시
+ *
+ * @param results - 파일 경로별 린트 결과
+ * @returns 리포트에 사용할 파일별 결과 (결과 순서 유지)
+ */
+export function toBatchReportFiles(
+  results: Record<string, LintBatchFileResult>,
+): ReportFile[] {
+  return Object.entries(results).map(([path, fileResult]) => ({
+    path,
+    warnings: fileResult.content?.warnings ?? [],
+    ...(!fileResult.success && { error: fileResult.message }),
+  }));
+}
+
+/**
+ * 요청의 리포트 포맷 결정
+ * format 쿼리 파라미터가 Accept 헤더보다 우선하며, Accept 헤더는
+ * q 값이 높은 미디어 타입부터 지원 여부를 확인
+ *
+ * @param format - format 쿼리 파라미터
+ * @param accept - Accept 헤더 값
+ * @returns 응답에 사용할 리포트 포맷 (기본값: json)
+ *
+ * @example
+ * ```typescript
+ * resolveReportFormat(undefined, 'application/sarif+json'); // 'sarif'
+ * resolveReportFormat('junit', 'application/json'); // 'junit'
+ * ```
+ */
+export function resolveReportFormat(
+  format?: ReportFormat,
+  accept?: string | null,
+): ReportFormat {
+  if (format) {
+    return format;
+  }
+
+  const acceptTypes: Record<string, ReportFormat> = REPORT.ACCEPT_TYPES;
+  const mediaRanges = (accept ?? '')
+    .split(',')
+    .map((range) => {
+      const [type, ...parameters] = range.split(';');
+      const quality = parameters
+        .map((parameter) => parameter.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find((value) => value !== undefined);
+      return {
+        type: type.trim().toLowerCase(),
+        quality: quality === undefined ? 1 : Number(quality),
+      };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { type } of mediaRanges) {
+    if (type === '*/*') {
+      return 'json';
+    }
+    if (acceptTypes[type]) {
+      return acceptTypes[type];
+    }
+  }
+
+  return 'json';
+}
@@ -0,0 +1,36 @@
+/**
+ * 결정적 JSON 직렬화 유틸리티
+ * 캐시 키처럼 같은 값이면 항상 같은 문자열이 필요한 곳에서 사용
+ */
+
+/**
+ * 객체 키를 정렬하여 직렬화 (키 순서가 달라도 같은 문자열)
+ * undefined 값을 가진 키는 JSON.stringify와 같이 생략
+ *
+ * @param value - 직렬화할 값
+ * @returns 정렬된 JSON 문자열
+ *
+ * @example
+ * ```typescript
+ * stableStringify({ b: 1, a: [2, { d: 3, c: 4 }] });
+ * // '{"a":[2,{"c":4,"d":3}],"b":1}'
+ * ```
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([key, entryValue]) =>
+          `${JSON.stringify(key)}:${stableStringify(entryValue)}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
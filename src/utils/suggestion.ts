@@ -0,0 +1,71 @@
+import { STYLELINT_CONSTANTS } from '../constants';
+
+/**
+ * 두 문자열 사이의 레벤슈타인 편집 거리 계산
+ *
+ * @param a - 비교할 문자열
+ * @param b - 비교할 문자열
+ * @returns 삽입/삭제/치환 횟수의 최솟값
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  // 이전 행만 유지하여 메모리 사용을 O(n)으로 제한
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 후보 중 입력값과 가장 비슷한 이름 찾기
+ * 플러그인 규칙(예: @stylistic/indentation)은 접두사를 뺀 이름으로도 비교함
+ *
+ * @param value - 사용자가 입력한 이름
+ * @param candidates - 비교할 후보 이름 목록
+ * @param maxDistance - 제안으로 인정할 최대 편집 거리
+ * @returns 가장 비슷한 후보 이름 (없으면 undefined)
+ *
+ * @example
+ * ```typescript
+ * findClosestMatch('colour-no-invalid-hex', ['color-no-invalid-hex']);
+ * // 'color-no-invalid-hex'
+ * ```
+ */
+export function findClosestMatch(
+  value: string,
+  candidates: Iterable<string>,
+  maxDistance: number = STYLELINT_CONSTANTS.MAX_SUGGESTION_DISTANCE,
+): string | undefined {
+  let bestMatch: string | undefined;
+  let bestDistance = maxDistance + 1;
+
+  for (const candidate of candidates) {
+    const shortName = candidate.slice(candidate.indexOf('/') + 1);
+    const distance = Math.min(
+      levenshteinDistance(value, candidate),
+      levenshteinDistance(value, shortName),
+    );
+
+    if (distance < bestDistance) {
+      bestMatch = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestMatch;
+}
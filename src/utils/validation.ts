@@ -1,6 +1,19 @@
-import { STYLELINT_CONSTANTS, VALIDATION_ERRORS } from '../constants';
+import {
+  FORMATTING,
+  STYLELINT_CONSTANTS,
+  VALIDATION_ERRORS,
+} from '../constants';
 import { ValidationError } from '../errors';
-import { CssSyntax, OutputStyle } from '../types';
+import {
+  CssSyntax,
+  FixOption,
+  FormatOptions,
+  LintBatchFile,
+  LineRange,
+  OutputStyle,
+  RuleIssue,
+} from '../types';
+import { findClosestMatch } from './suggestion';
 
 /**
  * 문자열이 비어있는지 확인 (trim 후)
@@ -59,20 +72,69 @@ export function validateSyntax(syntax: unknown): asserts syntax is CssSyntax {
  * Stylelint 규칙 유효성 검증
  *
  * @param rules - 검증할 규칙
+ * @param allowEmpty - 빈 규칙 허용 여부 (프리셋이 규칙을 제공하는 경우)
  * @throws {ValidationError} 유효하지 않은 규칙
  */
 export function validateRules(
   rules: unknown,
+  allowEmpty: boolean = false,
 ): asserts rules is Record<string, unknown> {
   if (typeof rules !== 'object' || rules === null) {
     throw new ValidationError(VALIDATION_ERRORS.INVALID_RULES_TYPE);
   }
 
-  if (Object.keys(rules).length < STYLELINT_CONSTANTS.MIN_RULES_COUNT) {
+  if (
+    !allowEmpty &&
+    Object.keys(rules).length < STYLELINT_CONSTANTS.MIN_RULES_COUNT
+  ) {
     throw new ValidationError(VALIDATION_ERRORS.EMPTY_RULES);
   }
 }
 
+/**
+ * 설치되지 않은 규칙 이름 찾기
+ *
+ * @param rules - 검사할 규칙
+ * @param knownRules - 사용 가능한 규칙 이름 집합
+ * @returns 알 수 없는 규칙 목록 (비슷한 이름이 있으면 제안 포함)
+ */
+export function findUnknownRules(
+  rules: Record<string, unknown>,
+  knownRules: ReadonlySet<string>,
+): RuleIssue[] {
+  return Object.keys(rules)
+    .filter((rule) => !knownRules.has(rule))
+    .map((rule): RuleIssue => {
+      const suggestion = findClosestMatch(rule, knownRules);
+      return {
+        rule,
+        reason: 'unknown-rule',
+        message: suggestion
+          ? `${VALIDATION_ERRORS.UNKNOWN_RULE}. "${suggestion}"을(를) 의도하셨나요?`
+          : VALIDATION_ERRORS.UNKNOWN_RULE,
+        ...(suggestion && { suggestion }),
+      };
+    });
+}
+
+/**
+ * 규칙 설정 오류가 없는지 검증
+ *
+ * @param issues - 수집한 규칙 설정 오류
+ * @throws {ValidationError} 오류가 하나라도 있는 경우 (context.rules에 목록 포함)
+ */
+export function assertNoRuleIssues(issues: RuleIssue[]): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const ruleNames = [...new Set(issues.map((issue) => issue.rule))];
+  throw new ValidationError(
+    `${VALIDATION_ERRORS.INVALID_RULES}: ${ruleNames.join(', ')}`,
+    { rules: issues },
+  );
+}
+
 /**
  * 출력 스타일 유효성 검증 (선택적)
  *
@@ -92,3 +154,206 @@ export function validateOutputStyle(
     );
   }
 }
+
+/**
+ * 출력 포맷 옵션 유효성 검증 (선택적)
+ *
+ * @param format - 검증할 포맷 옵션
+ * @throws {ValidationError} 유효하지 않은 포맷 옵션
+ */
+export function validateFormatOptions(
+  format: unknown,
+): asserts format is FormatOptions | undefined {
+  if (format === undefined) {
+    return;
+  }
+
+  if (typeof format !== 'object' || format === null || Array.isArray(format)) {
+    throw new ValidationError(VALIDATION_ERRORS.INVALID_FORMAT_OPTIONS);
+  }
+
+  const { indentSize, useTabs, newline, finalNewline, quote } =
+    format as Record<string, unknown>;
+
+  if (
+    indentSize !== undefined &&
+    (typeof indentSize !== 'number' ||
+      !Number.isInteger(indentSize) ||
+      indentSize < FORMATTING.MIN_INDENT_SIZE ||
+      indentSize > FORMATTING.MAX_INDENT_SIZE)
+  ) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_INDENT_SIZE} (${FORMATTING.MIN_INDENT_SIZE}~${FORMATTING.MAX_INDENT_SIZE} 사이의 정수)`,
+    );
+  }
+
+  validateBooleanOption(useTabs, 'format.useTabs');
+  validateBooleanOption(finalNewline, 'format.finalNewline');
+
+  const supportedNewlines: readonly unknown[] = FORMATTING.SUPPORTED_NEWLINES;
+  if (newline !== undefined && !supportedNewlines.includes(newline)) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_NEWLINE}. 사용 가능한 값: ${FORMATTING.SUPPORTED_NEWLINES.join(', ')}`,
+    );
+  }
+
+  const supportedQuotes: readonly unknown[] = FORMATTING.SUPPORTED_QUOTES;
+  if (quote !== undefined && !supportedQuotes.includes(quote)) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_QUOTE}. 사용 가능한 값: ${FORMATTING.SUPPORTED_QUOTES.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * 자동 수정 옵션 유효성 검증 (선택적)
+ *
+ * @param fix - 검증할 자동 수정 옵션
+ * @throws {ValidationError} 유효하지 않은 자동 수정 옵션
+ */
+export function validateFixOption(
+  fix: unknown,
+): asserts fix is FixOption | undefined {
+  if (fix === undefined || typeof fix === 'boolean') {
+    return;
+  }
+
+  const supportedModes: readonly string[] =
+    STYLELINT_CONSTANTS.SUPPORTED_FIX_MODES;
+  if (typeof fix !== 'string' || !supportedModes.includes(fix)) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_FIX_OPTION}. 사용 가능한 값: true, false, ${STYLELINT_CONSTANTS.SUPPORTED_FIX_MODES.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * boolean 옵션 유효성 검증 (선택적)
+ *
+ * @param value - 검증할 옵션 값
+ * @param optionName - 에러 메시지에 표시할 옵션 이름
+ * @throws {ValidationError} boolean이 아닌 값
+ */
+export function validateBooleanOption(
+  value: unknown,
+  optionName: string,
+): asserts value is boolean | undefined {
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_BOOLEAN_OPTION}: ${optionName}`,
+    );
+  }
+}
+
+/**
+ * 제한 시간 옵션 유효성 검증 (선택적)
+ *
+ * @param timeoutMs - 검증할 제한 시간 (밀리초)
+ * @throws {ValidationError} 1 이상의 정수가 아닌 값
+ */
+export function validateTimeout(
+  timeoutMs: unknown,
+): asserts timeoutMs is number | undefined {
+  if (
+    timeoutMs !== undefined &&
+    (!Number.isInteger(timeoutMs) || (timeoutMs as number) < 1)
+  ) {
+    throw new ValidationError(VALIDATION_ERRORS.INVALID_TIMEOUT);
+  }
+}
+
+/**
+ * 요청에서 지정한 패키지 목록이 허용 목록에 있는지 검증 (선택적)
+ *
+ * @param packages - 검증할 패키지 이름 목록
+ * @param allowlist - 서버에서 허용한 패키지 목록
+ * @param optionName - 에러 메시지에 표시할 옵션 이름 (extends, plugins)
+ * @throws {ValidationError} 배열이 아니거나 허용되지 않은 패키지가 포함된 경우
+ */
+export function validateAllowedPackages(
+  packages: unknown,
+  allowlist: readonly string[],
+  optionName: string,
+): asserts packages is string[] | undefined {
+  if (packages === undefined) {
+    return;
+  }
+
+  if (
+    !Array.isArray(packages) ||
+    !packages.every((pkg) => typeof pkg === 'string')
+  ) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.INVALID_PACKAGE_LIST}: ${optionName}`,
+    );
+  }
+
+  const disallowed = packages.filter((pkg) => !allowlist.includes(pkg));
+  if (disallowed.length > 0) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.PACKAGE_NOT_ALLOWED} (${optionName}): ${disallowed.join(', ')}. 사용 가능한 패키지: ${allowlist.join(', ')}`,
+      { option: optionName, disallowed, allowed: [...allowlist] },
+    );
+  }
+}
+
+/**
+ * 배치 린트 파일 목록 유효성 검증
+ * 개별 파일의 code/syntax는 파일별 린트 단계에서 검증되므로 여기서는
+ * 목록 자체와 결과 키로 쓰이는 경로만 검사
+ *
+ * @param files - 검증할 파일 목록
+ * @throws {ValidationError} 유효하지 않은 파일 목록
+ */
+export function validateBatchFiles(
+  files: unknown,
+): asserts files is LintBatchFile[] {
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new ValidationError(VALIDATION_ERRORS.EMPTY_FILES);
+  }
+
+  if (files.length > STYLELINT_CONSTANTS.MAX_BATCH_FILES) {
+    throw new ValidationError(
+      `${VALIDATION_ERRORS.TOO_MANY_FILES} (최대 ${STYLELINT_CONSTANTS.MAX_BATCH_FILES}개)`,
+      { count: files.length },
+    );
+  }
+
+  const seenPaths = new Set<string>();
+  for (const file of files) {
+    const path = (file as { path?: unknown } | null)?.path;
+    if (typeof path !== 'string' || isEmptyString(path)) {
+      throw new ValidationError(VALIDATION_ERRORS.INVALID_FILE_PATH);
+    }
+
+    if (seenPaths.has(path)) {
+      throw new ValidationError(VALIDATION_ERRORS.DUPLICATE_FILE_PATH, {
+        path,
+      });
+    }
+    seenPaths.add(path);
+  }
+}
+
+/**
+ * 변경된 줄 범위 유효성 검증
+ *
+ * @param ranges - 검증할 줄 범위 목록
+ * @param path - 에러 컨텍스트에 표시할 파일 경로
+ * @throws {ValidationError} 시작 줄이 1보다 작거나 끝 줄보다 큰 경우
+ */
+export function validateLineRanges(ranges: LineRange[], path: string): void {
+  for (const range of ranges) {
+    if (
+      !Number.isInteger(range.start) ||
+      !Number.isInteger(range.end) ||
+      range.start < 1 ||
+      range.end < range.start
+    ) {
+      throw new ValidationError(VALIDATION_ERRORS.INVALID_LINE_RANGE, {
+        path,
+        range,
+      });
+    }
+  }
+}
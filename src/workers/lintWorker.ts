@@ -0,0 +1,32 @@
+/**
+ * 린트 워커 스크립트
+ * LintWorkerPool이 생성하는 Bun Worker에서 실행되며, 요청 하나를 받아
+ * lintCode 결과 또는 직렬화된 에러를 돌려보냄
+ */
+import { lintCode } from '../services/lintService';
+import { warmStylelintConfigs } from '../services/stylelintConfigService';
+import { warmRuleCatalog } from '../services/ruleCatalogService';
+import { serializeAppError } from '../errors';
+import type {
+  LintWorkerRequest,
+  LintWorkerResponse,
+} from '../services/lintWorkerPool';
+
+declare const self: Worker;
+
+// 첫 요청 전에 기본 설정과 규칙 카탈로그를 준비해 둠 (실패 시 요청 처리 중 다시 시도)
+void warmStylelintConfigs();
+void warmRuleCatalog();
+
+self.onmessage = async (event: MessageEvent<LintWorkerRequest>) => {
+  let response: LintWorkerResponse;
+
+  try {
+    // 결과 캐시는 메인 스레드의 워커 풀이 관리
+    response = { result: await lintCode(event.data.request, { cache: false }) };
+  } catch (error) {
+    response = { error: serializeAppError(error) };
+  }
+
+  self.postMessage(response);
+};
@@ -1,5 +1,9 @@
 import { describe, test, expect } from 'bun:test';
 import { app } from '../src/index';
+import {
+  createLintCacheKey,
+  getLintCacheStats,
+} from '../src/services/lintCacheService';
 
 type HealthResponse = {
   status: string;
@@ -15,6 +19,7 @@ type LintResponse = {
     output?: string;
     info?: {
       version?: string;
+      fix?: string;
       config: {
         customSyntax?: string;
         extends: unknown[];
@@ -118,6 +123,125 @@ describe('API Integration Tests', () => {
       expect(content.output).toContain('{\n');
     });
 
+    test('should not rewrite code when fix is disabled', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'body { color: #FFF; }',
+          syntax: 'css',
+          config: {
+            rules: { 'color-hex-case': 'lower' },
+            fix: false,
+          },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse;
+
+      expect(response.status).toBe(200);
+      const content = data.content!;
+      expect(content.output).toBe('body { color: #FFF; }');
+      expect(content.info?.fix).toBe('off');
+    });
+
+    test('should lint with preset and no rules', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a { color: #FFF !important; }',
+          syntax: 'css',
+          config: { preset: 'strict' },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse & {
+        content: { warnings: { rule: string }[] };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.content.warnings.map((w) => w.rule)).toContain(
+        'declaration-no-important',
+      );
+    });
+
+    test('should return 400 for extends outside the allowlist', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a { color: red; }',
+          syntax: 'css',
+          config: {
+            rules: { 'color-no-invalid-hex': true },
+            extends: ['stylelint-config-unknown'],
+          },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.message).toContain('stylelint-config-unknown');
+    });
+
+    test('should return 400 for unknown preset', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a { color: red; }',
+          syntax: 'css',
+          config: { preset: 'missing' },
+        }),
+      });
+
+      const response = await app.handle(request);
+
+      expect(response.status).toBe(400);
+    });
+
+    test('should return 400 with details for unknown rules', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a { color: red; }',
+          syntax: 'css',
+          config: { rules: { 'colour-no-invalid-hex': true } },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as {
+        success: boolean;
+        context?: { rules: { rule: string; suggestion?: string }[] };
+      };
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.context?.rules).toEqual([
+        expect.objectContaining({
+          rule: 'colour-no-invalid-hex',
+          suggestion: 'color-no-invalid-hex',
+        }),
+      ]);
+    });
+
     test('should return 400 for empty code', async () => {
       const request = new Request('http://localhost/lint', {
         method: 'POST',
@@ -276,6 +400,533 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('POST /lint caching', () => {
+    const createRequest = (headers: Record<string, string> = {}, query = '') =>
+      new Request(`http://localhost/lint${query}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({
+          code: '.cached { color: #ABCDEF; }',
+          syntax: 'css',
+          config: { rules: { 'color-hex-case': 'lower' } },
+        }),
+      });
+
+    test('should return an ETag and 304 for a matching If-None-Match', async () => {
+      const first = await app.handle(createRequest());
+      const etag = first.headers.get('etag') as string;
+
+      expect(first.status).toBe(200);
+      expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+
+      const second = await app.handle(
+        createRequest({ 'If-None-Match': `W/"other", ${etag}` }),
+      );
+
+      expect(second.status).toBe(304);
+      expect(await second.text()).toBe('');
+    });
+
+    /**
+     * 주어진 본문과 If-None-Match로 POST /lint 요청
+     */
+    const postLint = (body: unknown, ifNoneMatch: string) =>
+      app.handle(
+        new Request('http://localhost/lint', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'If-None-Match': ifNoneMatch,
+          },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    test('should answer an issued ETag without linting', async () => {
+      const body = {
+        code: '.etag-only { color: #FEDCBA; }',
+        syntax: 'css' as const,
+        config: { rules: { 'color-hex-case': 'lower' } },
+      };
+      const etag = `"${createLintCacheKey(body)}"`;
+
+      // 아직 발급하지 않은 ETag는 일치해도 린트하여 200으로 응답
+      const first = await postLint(body, etag);
+      expect(first.status).toBe(200);
+      expect(first.headers.get('etag')).toBe(etag);
+
+      const before = getLintCacheStats();
+      const second = await postLint(body, etag);
+
+      expect(second.status).toBe(304);
+      // 린트하지 않았으므로 결과 캐시도 조회하지 않음
+      expect(getLintCacheStats()).toMatchObject({
+        hits: before.hits,
+        misses: before.misses,
+      });
+    });
+
+    test('should ignore If-None-Match: * and still validate the body', async () => {
+      const invalid = await postLint(
+        {
+          code: '.wildcard { color: red; }',
+          syntax: 'css',
+          config: { rules: { 'totally-made-up-rule-name': true } },
+        },
+        '*',
+      );
+      const valid = await postLint(
+        {
+          code: '.wildcard { color: red; }',
+          syntax: 'css',
+          config: { rules: { 'color-named': 'never' } },
+        },
+        '*',
+      );
+
+      expect(invalid.status).toBe(400);
+      expect(((await invalid.json()) as LintResponse).success).toBe(false);
+      expect(invalid.headers.get('etag')).toBeNull();
+      expect(valid.status).toBe(200);
+    });
+
+    test('should use a different ETag per report format', async () => {
+      const json = await app.handle(createRequest());
+      const sarif = await app.handle(createRequest({}, '?format=sarif'));
+
+      expect(sarif.headers.get('etag')).not.toBe(json.headers.get('etag'));
+    });
+
+    test('should expose cache hit and miss counts', async () => {
+      await app.handle(createRequest());
+
+      const response = await app.handle(new Request('http://localhost/cache'));
+      const data = (await response.json()) as {
+        success: boolean;
+        content: { hits: number; misses: number; capacity: number };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.content.hits).toBeGreaterThan(0);
+      expect(data.content.misses).toBeGreaterThan(0);
+      expect(data.content.capacity).toBe(500);
+    });
+  });
+
+  describe('POST /lint timeout', () => {
+    test('should return 504 when linting exceeds the timeout', async () => {
+      const request = new Request('http://localhost/lint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a { color: red; }\n'.repeat(2000),
+          syntax: 'css',
+          config: {
+            rules: { 'color-named': 'never' },
+            timeoutMs: 1,
+          },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse & {
+        context?: { timeoutMs: number; elapsedMs: number };
+      };
+
+      expect(response.status).toBe(504);
+      expect(data.success).toBe(false);
+      expect(data.context?.timeoutMs).toBe(1);
+    });
+  });
+
+  describe('POST /lint report formats', () => {
+    const createRequest = (
+      query: string,
+      headers: Record<string, string> = {},
+    ) =>
+      new Request(`http://localhost/lint${query}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({
+          code: 'a {\n  color: red;\n}',
+          syntax: 'scss',
+          config: {
+            rules: { 'color-named': 'never' },
+            fix: false,
+          },
+        }),
+      });
+
+    test('should return SARIF for the format query parameter', async () => {
+      const response = await app.handle(createRequest('?format=sarif'));
+      const log = (await response.json()) as {
+        version: string;
+        runs: Array<{
+          results: Array<{
+            ruleId: string;
+            locations: Array<{
+              physicalLocation: { artifactLocation: { uri: string } };
+            }>;
+          }>;
+        }>;
+      };
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain(
+        'application/sarif+json',
+      );
+      expect(log.version).toBe('2.1.0');
+      expect(log.runs[0].results[0].ruleId).toBe('color-named');
+      expect(
+        log.runs[0].results[0].locations[0].physicalLocation.artifactLocation
+          .uri,
+      ).toBe('input.scss');
+    });
+
+    test('should negotiate Checkstyle XML from the Accept header', async () => {
+      const response = await app.handle(
+        createRequest('', { Accept: 'application/xml' }),
+      );
+      const xml = await response.text();
+
+      expect(response.headers.get('content-type')).toContain('application/xml');
+      expect(xml).toContain('<checkstyle version="4.3">');
+      expect(xml).toContain('source="stylelint.rules.color-named"');
+    });
+
+    test('should return GitHub annotations as plain text', async () => {
+      const response = await app.handle(createRequest('?format=github'));
+
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(await response.text()).toStartWith(
+        '::error file=input.scss,line=2,col=10,',
+      );
+    });
+
+    test('should keep JSON error responses for invalid requests', async () => {
+      const request = new Request('http://localhost/lint?format=sarif', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: 'a {}',
+          syntax: 'css',
+          config: { rules: {} },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+  });
+
+  describe('Async lint jobs', () => {
+    type JobResponse = {
+      success: boolean;
+      message: string;
+      content: {
+        id: string;
+        status: string;
+        result?: { output: string };
+      } | null;
+    };
+
+    const createJob = (body: unknown) =>
+      app.handle(
+        new Request('http://localhost/jobs', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const getJob = async (id: string) =>
+      (await app
+        .handle(new Request(`http://localhost/jobs/${id}`))
+        .then((res) => res.json())) as JobResponse;
+
+    test('should accept a job and expose its result', async () => {
+      const response = await createJob({
+        code: 'a { color: #FFF; }',
+        syntax: 'css',
+        config: { rules: { 'color-hex-case': 'lower' } },
+      });
+      const data = (await response.json()) as JobResponse;
+      const id = data.content?.id as string;
+
+      expect(response.status).toBe(202);
+      expect(response.headers.get('location')).toBe(`/jobs/${id}`);
+      expect(['queued', 'running']).toContain(data.content?.status as string);
+
+      let job = await getJob(id);
+      for (
+        let attempt = 0;
+        job.content?.status !== 'completed' && attempt < 50;
+        attempt++
+      ) {
+        await Bun.sleep(20);
+        job = await getJob(id);
+      }
+
+      expect(job.content?.status).toBe('completed');
+      expect(job.content?.result?.output).toContain('#fff');
+    });
+
+    test('should reject invalid requests before queueing', async () => {
+      const response = await createJob({
+        code: 'a {}',
+        syntax: 'css',
+        config: { rules: {} },
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('should return 404 for unknown jobs', async () => {
+      const getResponse = await app.handle(
+        new Request('http://localhost/jobs/unknown'),
+      );
+      const deleteResponse = await app.handle(
+        new Request('http://localhost/jobs/unknown', { method: 'DELETE' }),
+      );
+
+      expect(getResponse.status).toBe(404);
+      expect(deleteResponse.status).toBe(404);
+    });
+
+    test('should cancel a job', async () => {
+      const response = await createJob({
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: { rules: { 'color-named': 'never' } },
+      });
+      const { content } = (await response.json()) as JobResponse;
+
+      const cancelResponse = await app.handle(
+        new Request(`http://localhost/jobs/${content?.id}`, {
+          method: 'DELETE',
+        }),
+      );
+      const cancelled = (await cancelResponse.json()) as JobResponse;
+
+      // 취소 요청 전에 작업이 끝났다면 결과가 삭제됨
+      expect(cancelResponse.status).toBe(200);
+      expect(['cancelled', 'completed']).toContain(
+        cancelled.content?.status as string,
+      );
+    });
+  });
+
+  describe('GET /presets', () => {
+    test('should list server-side presets', async () => {
+      const response = await app.handle(
+        new Request('http://localhost/presets'),
+      );
+      const data = (await response.json()) as {
+        success: boolean;
+        content: { presets: { name: string; rules: object }[] };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      const names = data.content.presets.map((preset) => preset.name);
+      expect(names).toEqual(
+        expect.arrayContaining(['standard', 'strict', 'team-legacy']),
+      );
+    });
+  });
+
+  describe('GET /rules', () => {
+    test('should list available rules with metadata', async () => {
+      const response = await app.handle(new Request('http://localhost/rules'));
+      const data = (await response.json()) as {
+        success: boolean;
+        content: {
+          rules: { name: string; source: string; enabledByDefault: boolean }[];
+        };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.content.rules).toContainEqual(
+        expect.objectContaining({
+          name: 'color-no-invalid-hex',
+          source: 'stylelint',
+          enabledByDefault: true,
+        }),
+      );
+    });
+  });
+
+  describe('POST /lint/batch', () => {
+    test('should lint multiple files with per-file results', async () => {
+      const request = new Request('http://localhost/lint/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          files: [
+            { path: 'a.css', code: 'a { color: #FFF; }', syntax: 'css' },
+            { path: 'b.css', code: '', syntax: 'css' },
+          ],
+          config: {
+            rules: { 'color-hex-case': 'lower' },
+          },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as {
+        success: boolean;
+        content: {
+          results: Record<string, LintResponse>;
+          summary: { total: number; succeeded: number; failed: number };
+        };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.content.results['a.css'].success).toBe(true);
+      expect(data.content.results['a.css'].content?.output).toContain('#fff');
+      expect(data.content.results['b.css'].success).toBe(false);
+      expect(data.content.summary.failed).toBe(1);
+    });
+
+    test('should return JUnit XML with failed files as errors', async () => {
+      const request = new Request('http://localhost/lint/batch?format=junit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          files: [
+            { path: 'a.css', code: 'a { color: red; }', syntax: 'css' },
+            { path: 'b.css', code: '', syntax: 'css' },
+          ],
+          config: {
+            rules: { 'color-named': 'never' },
+            fix: false,
+          },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const xml = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('application/xml');
+      expect(xml).toContain('<testsuite name="a.css" tests="1" failures="1"');
+      expect(xml).toContain(
+        '<testsuite name="b.css" tests="1" failures="0" errors="1"',
+      );
+    });
+
+    test('should return 400 for empty rules', async () => {
+      const request = new Request('http://localhost/lint/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          files: [{ path: 'a.css', code: 'a {}', syntax: 'css' }],
+          config: { rules: {} },
+        }),
+      });
+
+      const response = await app.handle(request);
+      const data = (await response.json()) as LintResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+  });
+
+  describe('POST /lint/changed', () => {
+    const body = {
+      files: [
+        {
+          path: 'a.css',
+          code: 'a {\n  color: red;\n  background: blue;\n}\n',
+          syntax: 'css',
+        },
+      ],
+      diff: '--- a/a.css\n+++ b/a.css\n@@ -1,3 +1,4 @@\n a {\n   color: red;\n+  background: blue;\n }\n',
+      config: { rules: { 'color-named': 'never' }, fix: false },
+    };
+
+    test('should count warnings on unchanged lines as filtered', async () => {
+      const response = await app.handle(
+        new Request('http://localhost/lint/changed', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      );
+      const data = (await response.json()) as {
+        content: {
+          results: Record<string, LintResponse & { filteredWarnings: number }>;
+          summary: Record<string, number>;
+        };
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.content.results['a.css'].filteredWarnings).toBe(1);
+      expect(data.content.summary).toEqual({
+        total: 1,
+        succeeded: 1,
+        failed: 0,
+        warnings: 1,
+        filteredWarnings: 1,
+      });
+    });
+
+    test('should report only changed lines in GitHub format', async () => {
+      const response = await app.handle(
+        new Request('http://localhost/lint/changed?format=github', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      );
+
+      expect(await response.text()).toBe(
+        '::error file=a.css,line=3,col=15,endLine=3,endColumn=19,title=color-named::Unexpected named color "blue" (color-named)\n',
+      );
+    });
+
+    test('should return 400 without a diff or changed lines', async () => {
+      const response = await app.handle(
+        new Request('http://localhost/lint/changed', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, diff: undefined }),
+        }),
+      );
+      const data = (await response.json()) as LintResponse & {
+        context: Record<string, unknown>;
+      };
+
+      expect(response.status).toBe(400);
+      expect(data.context).toEqual({ paths: ['a.css'] });
+    });
+  });
+
   describe('Error Handling', () => {
     test('should return 404 for unknown routes', async () => {
       const response = await app.handle(
@@ -303,4 +954,81 @@ describe('API Integration Tests', () => {
       expect(response.status).toBeGreaterThanOrEqual(400);
     });
   });
+
+  describe('WS /lint/live', () => {
+    /**
+     * 서버를 임시 포트로 띄우고 WebSocket 연결 후 받은 메시지를 순서대로 반환
+     */
+    async function withLiveLint(
+      run: (
+        send: (message: unknown) => void,
+        next: () => Promise<Record<string, unknown>>,
+      ) => Promise<void>,
+    ): Promise<void> {
+      app.listen(0);
+      const socket = new WebSocket(
+        `ws://127.0.0.1:${app.server?.port}/lint/live`,
+      );
+      const received: Array<Record<string, unknown>> = [];
+      const waiting: Array<(message: Record<string, unknown>) => void> = [];
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(String(event.data));
+        const resolve = waiting.shift();
+        if (resolve) {
+          resolve(message);
+        } else {
+          received.push(message);
+        }
+      };
+
+      await new Promise((resolve) => {
+        socket.onopen = resolve;
+      });
+
+      try {
+        await run(
+          (message) => socket.send(JSON.stringify(message)),
+          () =>
+            received.length > 0
+              ? Promise.resolve(received.shift() as Record<string, unknown>)
+              : new Promise((resolve) => waiting.push(resolve)),
+        );
+      } finally {
+        socket.close();
+        await app.stop(true);
+      }
+    }
+
+    test('should push versioned lint results', async () => {
+      await withLiveLint(async (send, next) => {
+        send({
+          type: 'open',
+          syntax: 'css',
+          config: { rules: { 'color-hex-case': 'lower' } },
+        });
+        expect(await next()).toEqual({ type: 'ready', syntax: 'css' });
+
+        send({ type: 'update', version: 1, code: 'a { color: #ABC; }' });
+        const message = await next();
+
+        expect(message.type).toBe('result');
+        expect(message.version).toBe(1);
+        expect((message.content as { output: string }).output).toContain(
+          '#abc',
+        );
+      });
+    });
+
+    test('should answer invalid messages with an error', async () => {
+      await withLiveLint(async (send, next) => {
+        send({ type: 'update', version: 'one', code: 'a {}' });
+
+        expect(await next()).toMatchObject({
+          type: 'error',
+          code: 'VALIDATION_ERROR',
+        });
+      });
+    });
+  });
 });
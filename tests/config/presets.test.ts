@@ -0,0 +1,90 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getPreset, listPresets, loadPresets } from '../../src/config/presets';
+import { ValidationError } from '../../src/errors';
+
+describe('presets', () => {
+  describe('loadPresets', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'csslint-presets-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should load presets named after json files', () => {
+      writeFileSync(
+        join(dir, 'team.json'),
+        JSON.stringify({
+          description: 'Team preset',
+          plugins: ['stylelint-order'],
+          rules: { 'color-named': 'never' },
+        }),
+      );
+      writeFileSync(join(dir, 'README.md'), '# ignored');
+
+      const presets = loadPresets(dir);
+
+      expect([...presets.keys()]).toEqual(['team']);
+      expect(presets.get('team')).toEqual({
+        name: 'team',
+        description: 'Team preset',
+        extends: [],
+        plugins: ['stylelint-order'],
+        rules: { 'color-named': 'never' },
+      });
+    });
+
+    test('should return empty map for missing directory', () => {
+      const presets = loadPresets(join(dir, 'missing'));
+
+      expect(presets.size).toBe(0);
+    });
+
+    test('should throw for invalid JSON', () => {
+      writeFileSync(join(dir, 'broken.json'), '{ rules: ');
+
+      expect(() => loadPresets(dir)).toThrow('Invalid preset "broken"');
+    });
+
+    test('should throw for invalid preset shape', () => {
+      writeFileSync(
+        join(dir, 'bad.json'),
+        JSON.stringify({ extends: 'stylelint-config-standard' }),
+      );
+
+      expect(() => loadPresets(dir)).toThrow(
+        'extends must be an array of strings',
+      );
+    });
+
+    test('should throw for invalid file name', () => {
+      writeFileSync(join(dir, 'Bad Name.json'), '{}');
+
+      expect(() => loadPresets(dir)).toThrow('Invalid preset file name');
+    });
+  });
+
+  describe('bundled presets', () => {
+    test('should load standard, strict and team-legacy presets', () => {
+      const names = listPresets().map((preset) => preset.name);
+
+      expect(names).toContain('standard');
+      expect(names).toContain('strict');
+      expect(names).toContain('team-legacy');
+    });
+
+    test('should return preset by name', () => {
+      expect(getPreset('strict').rules['declaration-no-important']).toBe(true);
+    });
+
+    test('should throw ValidationError for unknown preset', () => {
+      expect(() => getPreset('unknown')).toThrow(ValidationError);
+    });
+  });
+});
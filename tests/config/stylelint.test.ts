@@ -31,6 +31,71 @@ describe('stylelint config', () => {
       expect(config.customSyntax).toBe('postcss-html');
     });
 
+    test('should set preprocessor parsers for scss, sass and less', () => {
+      const rules = { 'color-no-invalid-hex': true };
+
+      expect(createStylelintConfig(rules, 'scss').customSyntax).toBe(
+        'postcss-scss',
+      );
+      expect(createStylelintConfig(rules, 'sass').customSyntax).toBe(
+        'postcss-sass',
+      );
+      expect(createStylelintConfig(rules, 'less').customSyntax).toBe(
+        'postcss-less',
+      );
+    });
+
+    test('should not extend scss config for less syntax', () => {
+      const config = createStylelintConfig({}, 'less');
+
+      expect(config.extends).not.toContain('stylelint-config-recommended-scss');
+      expect(config.extends).toContain('stylelint-config-standard');
+    });
+
+    test('should merge preset extends, plugins and rules', () => {
+      const preset = {
+        name: 'team',
+        extends: ['stylelint-config-standard', 'stylelint-config-extra'],
+        plugins: ['stylelint-plugin-extra'],
+        rules: { 'color-named': 'never', 'color-hex-case': 'upper' },
+      };
+
+      const config = createStylelintConfig(
+        { '@stylistic/color-hex-case': 'lower' },
+        'css',
+        { preset },
+      );
+
+      expect(config.extends).toEqual([
+        ...DEFAULT_EXTENDS,
+        'stylelint-config-extra',
+      ]);
+      expect(config.plugins).toEqual([
+        ...DEFAULT_PLUGINS,
+        'stylelint-plugin-extra',
+      ]);
+      expect(config.rules).toEqual({
+        'color-named': 'never',
+        '@stylistic/color-hex-case': 'lower',
+      });
+    });
+
+    test('should replace default extends and plugins when specified', () => {
+      const config = createStylelintConfig({}, 'css', {
+        preset: {
+          name: 'team',
+          extends: ['stylelint-config-extra'],
+          plugins: [],
+          rules: {},
+        },
+        extends: ['stylelint-config-recommended-scss'],
+        plugins: [],
+      });
+
+      expect(config.extends).toEqual(['stylelint-config-recommended-scss']);
+      expect(config.plugins).toEqual([]);
+    });
+
     test('should preserve user rules without mutation', () => {
       const rules = { 'color-hex-case': 'lower', indentation: 2 };
       const originalRules = { ...rules };
@@ -0,0 +1,42 @@
+/**
+ * 린트 실행 함수를 주입받는 서비스 테스트용 헬퍼
+ */
+import { createEmptyLintContent } from '../../src/services/lintService';
+import { LintRequest, LintResult } from '../../src/types';
+
+/**
+ * 주어진 코드를 출력으로 가진 경고 없는 린트 결과
+ *
+ * @param output - 출력 코드
+ */
+export function createLintResult(output: string): LintResult {
+  return {
+    success: true,
+    message: '성공',
+    content: createEmptyLintContent({
+      code: output,
+      syntax: 'css',
+      config: { rules: {} },
+    }),
+  };
+}
+
+/**
+ * 테스트에서 직접 완료 시점을 제어하는 린트 실행 함수
+ * 호출마다 요청, 취소 신호와 결과를 정하는 resolve/reject를 기록
+ */
+export function createControlledRunner() {
+  const calls: Array<{
+    request: LintRequest;
+    signal: AbortSignal;
+    resolve: (result: LintResult) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  const runner = (request: LintRequest, signal: AbortSignal) =>
+    new Promise<LintResult>((resolve, reject) => {
+      calls.push({ request, signal, resolve, reject });
+    });
+
+  return { runner, calls };
+}
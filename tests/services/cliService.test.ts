@@ -0,0 +1,298 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectCliFiles,
+  lintCliFiles,
+  loadCliConfig,
+  parseCliArgs,
+  runCli,
+} from '../../src/services/cliService';
+import { app } from '../../src/index';
+import { ValidationError } from '../../src/errors';
+import { LintBatchRequest } from '../../src/types';
+
+describe('cliService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'csslint-cli-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * 임시 디렉터리에서 CLI를 실행하고 종료 코드와 출력 반환
+   */
+  async function run(...argv: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await runCli(argv, {
+      cwd: dir,
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+    });
+
+    return { exitCode, stdout, stderr };
+  }
+
+  describe('parseCliArgs', () => {
+    test('should parse options and patterns', () => {
+      expect(
+        parseCliArgs(['--fix', '-f', 'github', '-o', 'compact', 'a/**/*.css']),
+      ).toEqual({
+        patterns: ['a/**/*.css'],
+        preset: undefined,
+        rulesFile: undefined,
+        outputStyle: 'compact',
+        format: 'github',
+        fix: true,
+        server: undefined,
+        help: false,
+      });
+    });
+
+    test('should default to the text format without fixing', () => {
+      expect(parseCliArgs(['a.css'])).toMatchObject({
+        format: 'text',
+        fix: false,
+      });
+    });
+
+    test('should reject unknown options, formats and missing patterns', () => {
+      expect(() => parseCliArgs(['--bogus', 'a.css'])).toThrow(ValidationError);
+      expect(() => parseCliArgs(['-f', 'html', 'a.css'])).toThrow(
+        '지원하지 않는 리포트 포맷입니다',
+      );
+      expect(() => parseCliArgs([])).toThrow(
+        '린트할 파일 패턴을 지정해야 합니다',
+      );
+      expect(parseCliArgs(['--help']).help).toBe(true);
+    });
+  });
+
+  describe('loadCliConfig', () => {
+    const options = parseCliArgs(['a.css']);
+
+    test('should use the standard preset by default', async () => {
+      expect(await loadCliConfig(options, dir)).toEqual({
+        preset: 'standard',
+        fix: false,
+      });
+    });
+
+    test('should read a rules object or a config file', async () => {
+      writeFileSync(
+        join(dir, 'rules.json'),
+        JSON.stringify({ 'color-named': 'never' }),
+      );
+      writeFileSync(
+        join(dir, 'config.json'),
+        JSON.stringify({
+          rules: { 'color-named': 'never' },
+          plugins: ['stylelint-order'],
+          ignored: true,
+        }),
+      );
+
+      expect(
+        await loadCliConfig({ ...options, rulesFile: 'rules.json' }, dir),
+      ).toEqual({ rules: { 'color-named': 'never' }, fix: false });
+      expect(
+        await loadCliConfig(
+          {
+            ...options,
+            rulesFile: 'config.json',
+            preset: 'strict',
+            outputStyle: 'nested',
+            fix: true,
+          },
+          dir,
+        ),
+      ).toEqual({
+        rules: { 'color-named': 'never' },
+        plugins: ['stylelint-order'],
+        preset: 'strict',
+        outputStyle: 'nested',
+        format: { finalNewline: true },
+        fix: true,
+      });
+    });
+
+    test('should reject missing or invalid rules files', async () => {
+      writeFileSync(join(dir, 'list.json'), '[]');
+
+      await expect(
+        loadCliConfig({ ...options, rulesFile: 'missing.json' }, dir),
+      ).rejects.toThrow('규칙 파일을 찾을 수 없습니다');
+      await expect(
+        loadCliConfig({ ...options, rulesFile: 'list.json' }, dir),
+      ).rejects.toThrow('규칙 파일은 JSON 객체여야 합니다');
+    });
+  });
+
+  describe('collectCliFiles', () => {
+    test('should collect supported files with syntax from the extension', async () => {
+      mkdirSync(join(dir, 'src'));
+      mkdirSync(join(dir, 'node_modules'));
+      writeFileSync(join(dir, 'src/a.scss'), 'a { b { color: red; } }');
+      writeFileSync(join(dir, 'src/b.vue'), '<style>b {}</style>');
+      writeFileSync(join(dir, 'src/c.txt'), 'c');
+      writeFileSync(join(dir, 'src/empty.css'), '\n');
+      writeFileSync(join(dir, 'node_modules/d.css'), 'd {}');
+      writeFileSync(join(dir, 'e.LESS'), 'e {}');
+
+      const files = await collectCliFiles(
+        ['**/*', 'src/a.scss', 'e.LESS'],
+        dir,
+      );
+
+      expect(files).toEqual([
+        { path: 'e.LESS', code: 'e {}', syntax: 'less' },
+        { path: 'src/a.scss', code: 'a { b { color: red; } }', syntax: 'scss' },
+        { path: 'src/b.vue', code: '<style>b {}</style>', syntax: 'html' },
+      ]);
+    });
+  });
+
+  describe('lintCliFiles', () => {
+    test('should split files into batches and merge the results', async () => {
+      const requests: LintBatchRequest[] = [];
+      const files = Array.from({ length: 101 }, (_, index) => ({
+        path: `${index}.css`,
+        code: 'a {}',
+        syntax: 'css' as const,
+      }));
+
+      const result = await lintCliFiles(
+        files,
+        { preset: 'standard' },
+        (request) => {
+          requests.push(request);
+          return Promise.resolve({
+            success: true,
+            message: '성공',
+            content: {
+              results: Object.fromEntries(
+                request.files.map((file) => [
+                  file.path,
+                  {
+                    success: file.path !== '100.css',
+                    message: '',
+                    content: null,
+                  },
+                ]),
+              ),
+              summary: { total: 0, succeeded: 0, failed: 0 },
+            },
+          });
+        },
+      );
+
+      expect(requests.map((request) => request.files.length)).toEqual([100, 1]);
+      expect(result.content?.summary).toEqual({
+        total: 101,
+        succeeded: 100,
+        failed: 1,
+      });
+    });
+  });
+
+  describe('runCli', () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(dir, 'rules.json'),
+        JSON.stringify({ 'color-named': 'never', 'color-hex-case': 'lower' }),
+      );
+    });
+
+    test('should report problems and exit with 1', async () => {
+      writeFileSync(join(dir, 'a.css'), 'a {\n  color: red;\n}\n');
+
+      const { exitCode, stdout } = await run('-r', 'rules.json', '*.css');
+
+      expect(exitCode).toBe(1);
+      expect(stdout).toBe(
+        'a.css\n' +
+          '  2:10  error    Unexpected named color "red" (color-named)\n' +
+          '\n' +
+          '문제 1개 (오류 1개, 경고 0개)\n',
+      );
+      expect(readFileSync(join(dir, 'a.css'), 'utf8')).toBe(
+        'a {\n  color: red;\n}\n',
+      );
+    });
+
+    test('should write fixed files with --fix and exit with 0', async () => {
+      writeFileSync(join(dir, 'a.css'), 'a {\n  color: #FFF;\n}\n');
+
+      const { exitCode, stdout, stderr } = await run(
+        '--fix',
+        '-o',
+        'compact',
+        '-r',
+        'rules.json',
+        'a.css',
+      );
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toBe('');
+      expect(stderr).toBe('수정됨: a.css\n');
+      expect(readFileSync(join(dir, 'a.css'), 'utf8')).toBe(
+        'a { color: #fff; }\n',
+      );
+    });
+
+    test('should exit with 2 on invalid configs or no files', async () => {
+      writeFileSync(join(dir, 'a.css'), 'a {}');
+      writeFileSync(join(dir, 'bad.json'), '{"colr-named": "never"}');
+
+      const invalid = await run('-r', 'bad.json', 'a.css');
+      const empty = await run('*.scss');
+
+      expect(invalid.exitCode).toBe(2);
+      expect(invalid.stderr).toContain('colr-named');
+      expect(empty.exitCode).toBe(2);
+      expect(empty.stderr).toContain(
+        '패턴과 일치하는 린트 가능한 파일이 없습니다',
+      );
+    });
+
+    test('should lint against a remote server', async () => {
+      writeFileSync(join(dir, 'a.css'), 'a {\n  color: red;\n}\n');
+      app.listen(0);
+
+      try {
+        const url = `http://127.0.0.1:${app.server?.port}`;
+        const { exitCode, stdout } = await run(
+          '-s',
+          url,
+          '-r',
+          'rules.json',
+          '-f',
+          'github',
+          'a.css',
+        );
+        const failed = await run('-s', url, '-p', 'missing', 'a.css');
+
+        expect(exitCode).toBe(1);
+        expect(stdout).toBe(
+          '::error file=a.css,line=2,col=10,endLine=2,endColumn=13,title=color-named::Unexpected named color "red" (color-named)\n',
+        );
+        expect(failed.exitCode).toBe(2);
+        expect(failed.stderr).toContain('존재하지 않는 프리셋입니다');
+      } finally {
+        await app.stop(true);
+      }
+    });
+  });
+});
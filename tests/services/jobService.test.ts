@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'bun:test';
+import { LintJobQueue, getLintJob } from '../../src/services/jobService';
+import { LintRequest } from '../../src/types';
+import {
+  CancelledError,
+  NotFoundError,
+  ParseError,
+  ServiceUnavailableError,
+} from '../../src/errors';
+import {
+  createControlledRunner,
+  createLintResult,
+} from '../helpers/lintRunner';
+
+const request: LintRequest = {
+  code: 'a { color: red; }',
+  syntax: 'css',
+  config: { rules: { 'color-named': 'never' } },
+};
+
+const lintResult = createLintResult('a { color: red; }');
+
+describe('jobService', () => {
+  describe('LintJobQueue', () => {
+    test('should run at most `concurrency` jobs at once', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 2);
+
+      const jobs = [1, 2, 3].map(() => queue.enqueue(request));
+
+      expect(calls).toHaveLength(2);
+      expect(queue.get(jobs[0].id)?.status).toBe('running');
+      expect(queue.get(jobs[2].id)?.status).toBe('queued');
+
+      calls[0].resolve(lintResult);
+      await Bun.sleep(0);
+
+      expect(calls).toHaveLength(3);
+      expect(queue.get(jobs[0].id)).toMatchObject({
+        status: 'completed',
+        result: lintResult.content,
+      });
+      expect(queue.get(jobs[2].id)?.status).toBe('running');
+    });
+
+    test('should record failures with error code and context', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1);
+      const job = queue.enqueue(request);
+
+      calls[0].reject(new ParseError('파싱 실패', { line: 1 }));
+      await Bun.sleep(0);
+
+      expect(queue.get(job.id)).toMatchObject({
+        status: 'failed',
+        error: {
+          message: '파싱 실패',
+          code: 'PARSE_ERROR',
+          context: { line: 1 },
+        },
+      });
+    });
+
+    test('should skip cancelled queued jobs and discard running results', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1);
+      const running = queue.enqueue(request);
+      const queued = queue.enqueue(request);
+
+      expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+      expect(queue.cancel(running.id)?.status).toBe('cancelled');
+
+      calls[0].resolve(lintResult);
+      await Bun.sleep(0);
+
+      expect(calls).toHaveLength(1);
+      expect(queue.get(running.id)?.status).toBe('cancelled');
+      expect(queue.get(running.id)?.result).toBeUndefined();
+    });
+
+    test('should abort the running lint on cancel', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1);
+      const running = queue.enqueue(request);
+      const queued = queue.enqueue(request);
+
+      expect(calls[0].signal.aborted).toBe(false);
+
+      queue.cancel(running.id);
+      expect(calls[0].signal.aborted).toBe(true);
+
+      calls[0].reject(new CancelledError('취소됨'));
+      await Bun.sleep(0);
+
+      expect(queue.get(running.id)).toMatchObject({ status: 'cancelled' });
+      expect(queue.get(running.id)?.error).toBeUndefined();
+      // 중단된 작업의 자리에서 다음 작업이 실행됨
+      expect(queue.get(queued.id)?.status).toBe('running');
+    });
+
+    test('should reject new jobs when the pending queue is full', () => {
+      const { runner } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1, 1000, 2);
+
+      queue.enqueue(request);
+      queue.enqueue(request);
+      queue.enqueue(request);
+
+      expect(() => queue.enqueue(request)).toThrow(ServiceUnavailableError);
+      expect(() => queue.enqueue(request)).toThrow(
+        '대기 중인 작업이 너무 많습니다',
+      );
+    });
+
+    test('should keep at most `maxFinished` finished jobs', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 3, 1000, 10, 2);
+      const jobs = [1, 2, 3].map(() => queue.enqueue(request));
+
+      // 종료 순서대로 오래된 작업부터 삭제 (생성 순서와 무관)
+      calls[1].resolve(lintResult);
+      calls[0].resolve(lintResult);
+      await Bun.sleep(0);
+      calls[2].reject(new ParseError('파싱 실패'));
+      await Bun.sleep(0);
+
+      expect(queue.get(jobs[1].id)).toBeUndefined();
+      expect(queue.get(jobs[0].id)?.status).toBe('completed');
+      expect(queue.get(jobs[2].id)?.status).toBe('failed');
+    });
+
+    test('should delete finished jobs on cancel', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1);
+      const job = queue.enqueue(request);
+
+      calls[0].resolve(lintResult);
+      await Bun.sleep(0);
+
+      expect(queue.cancel(job.id)?.status).toBe('completed');
+      expect(queue.get(job.id)).toBeUndefined();
+    });
+
+    test('should remove finished jobs after the TTL', async () => {
+      const { runner, calls } = createControlledRunner();
+      const queue = new LintJobQueue(runner, 1, 1000);
+      const finished = queue.enqueue(request);
+      const pending = queue.enqueue(request);
+
+      calls[0].resolve(lintResult);
+      await Bun.sleep(0);
+
+      // 테스트 실행 중 흐른 시간에 영향을 받지 않도록 종료 시각 기준으로 정리
+      const finishedAt = Date.parse(queue.get(finished.id)?.finishedAt ?? '');
+
+      queue.cleanup(finishedAt + 999);
+      expect(queue.get(finished.id)).toBeDefined();
+
+      queue.cleanup(finishedAt + 1000);
+      expect(queue.get(finished.id)).toBeUndefined();
+      // 종료되지 않은 작업은 TTL과 관계없이 유지
+      expect(queue.get(pending.id)?.status).toBe('running');
+    });
+  });
+
+  describe('getLintJob', () => {
+    test('should throw NotFoundError for unknown jobs', () => {
+      expect(() => getLintJob('unknown')).toThrow(NotFoundError);
+    });
+  });
+});
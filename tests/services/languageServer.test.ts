@@ -0,0 +1,365 @@
+import { describe, test, expect } from 'bun:test';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LanguageServer } from '../../src/services/languageServer';
+import {
+  JsonRpcMessageReader,
+  encodeJsonRpcMessage,
+} from '../../src/utils/jsonRpc';
+import { JsonRpcMessage, LintRequest } from '../../src/types';
+
+const config: LintRequest['config'] = {
+  rules: { 'color-named': 'never', 'color-hex-case': 'lower' },
+};
+
+/**
+ * 보낸 메시지를 기록하는 초기화된 서버 생성
+ */
+async function createServer(initConfig: LintRequest['config'] = config) {
+  const sent: JsonRpcMessage[] = [];
+  const exitCodes: number[] = [];
+  const server = new LanguageServer(
+    (message) => sent.push(message),
+    (code) => exitCodes.push(code),
+  );
+
+  await server.handle({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { initializationOptions: { config: initConfig } },
+  });
+
+  return { server, sent, exitCodes };
+}
+
+/**
+ * 문서 열기 알림
+ */
+function didOpen(uri: string, languageId: string, text: string) {
+  return {
+    jsonrpc: '2.0' as const,
+    method: 'textDocument/didOpen',
+    params: { textDocument: { uri, languageId, version: 1, text } },
+  };
+}
+
+describe('LanguageServer', () => {
+  test('should advertise diagnostics, fix-all and formatting', async () => {
+    const { sent } = await createServer();
+
+    expect(sent[0]).toMatchObject({
+      id: 1,
+      result: {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 1 },
+          codeActionProvider: { codeActionKinds: ['source.fixAll.stylelint'] },
+          documentFormattingProvider: true,
+        },
+      },
+    });
+  });
+
+  test('should reject an invalid lint config on initialize', async () => {
+    const { sent } = await createServer({ rules: { 'colr-named': 'never' } });
+
+    expect(sent[0]).toMatchObject({
+      id: 1,
+      error: { code: -32803, data: { code: 'VALIDATION_ERROR' } },
+    });
+  });
+
+  test('should reject requests before initialize', async () => {
+    const sent: JsonRpcMessage[] = [];
+    const server = new LanguageServer(
+      (message) => sent.push(message),
+      () => {},
+    );
+
+    await server.handle({
+      jsonrpc: '2.0',
+      id: 7,
+      method: 'textDocument/formatting',
+    });
+
+    expect(sent).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 7,
+        error: { code: -32002, message: expect.any(String) },
+      },
+    ]);
+  });
+
+  test('should publish diagnostics on open and change', async () => {
+    const { server, sent } = await createServer();
+
+    await server.handle(
+      didOpen('file:///a.scss', 'scss', 'a {\n  color: red;\n}'),
+    );
+
+    expect(sent[1]).toEqual({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        uri: 'file:///a.scss',
+        version: 1,
+        diagnostics: [
+          {
+            range: {
+              start: { line: 1, character: 9 },
+              end: { line: 1, character: 12 },
+            },
+            severity: 1,
+            code: 'color-named',
+            codeDescription: { href: expect.stringContaining('color-named') },
+            source: 'stylelint',
+            message: expect.stringContaining('color-named'),
+          },
+        ],
+      },
+    });
+
+    await server.handle({
+      jsonrpc: '2.0',
+      method: 'textDocument/didChange',
+      params: {
+        textDocument: { uri: 'file:///a.scss', version: 2 },
+        contentChanges: [{ text: 'a {\n  color: #fff;\n}' }],
+      },
+    });
+
+    expect(sent[2]).toMatchObject({
+      params: { uri: 'file:///a.scss', version: 2, diagnostics: [] },
+    });
+  });
+
+  test('should ignore documents in unsupported languages', async () => {
+    const { server, sent } = await createServer();
+
+    await server.handle(didOpen('file:///a.ts', 'typescript', 'const a = 1;'));
+
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should clear diagnostics on close', async () => {
+    const { server, sent } = await createServer();
+    await server.handle(didOpen('file:///a.css', 'css', 'a { color: red; }'));
+
+    await server.handle({
+      jsonrpc: '2.0',
+      method: 'textDocument/didClose',
+      params: { textDocument: { uri: 'file:///a.css' } },
+    });
+
+    expect(sent[2]).toEqual({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri: 'file:///a.css', diagnostics: [] },
+    });
+  });
+
+  test('should offer a fix-all action with the autofixed output', async () => {
+    const { server, sent } = await createServer();
+    await server.handle(
+      didOpen('file:///a.css', 'css', 'a {\n  color: #FFF;\n}'),
+    );
+
+    await server.handle({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'textDocument/codeAction',
+      params: {
+        textDocument: { uri: 'file:///a.css' },
+        context: { only: ['source.fixAll'] },
+      },
+    });
+
+    expect(sent[2]).toEqual({
+      jsonrpc: '2.0',
+      id: 2,
+      result: [
+        {
+          title: expect.any(String),
+          kind: 'source.fixAll.stylelint',
+          edit: {
+            documentChanges: [
+              {
+                textDocument: { uri: 'file:///a.css', version: 1 },
+                edits: [
+                  {
+                    range: {
+                      start: { line: 0, character: 0 },
+                      end: { line: 2, character: 1 },
+                    },
+                    newText: 'a {\n  color: #fff;\n}',
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    await server.handle({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'textDocument/codeAction',
+      params: {
+        textDocument: { uri: 'file:///a.css' },
+        context: { only: ['quickfix'] },
+      },
+    });
+
+    expect(sent[3]).toEqual({ jsonrpc: '2.0', id: 3, result: [] });
+  });
+
+  test('should format documents with the editor indentation', async () => {
+    const { server, sent } = await createServer({
+      ...config,
+      outputStyle: 'compact',
+    });
+    await server.handle(
+      didOpen('file:///a.less', 'less', 'a {\n  color: red;\n  margin: 0;\n}'),
+    );
+
+    await server.handle({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'textDocument/formatting',
+      params: {
+        textDocument: { uri: 'file:///a.less' },
+        options: { tabSize: 4, insertSpaces: true },
+      },
+    });
+
+    expect(sent[2]).toMatchObject({
+      id: 2,
+      result: [{ newText: 'a { color: red; margin: 0; }' }],
+    });
+  });
+
+  test('should clamp the editor tab size to the allowed indent range', async () => {
+    const { server, sent } = await createServer({
+      ...config,
+      outputStyle: 'nested',
+    });
+    await server.handle(didOpen('file:///a.css', 'css', 'a { color: red; }'));
+
+    for (const [id, tabSize] of [
+      [2, -4],
+      [3, 1_000_000],
+      [4, 2.5],
+    ]) {
+      await server.handle({
+        jsonrpc: '2.0',
+        id,
+        method: 'textDocument/formatting',
+        params: {
+          textDocument: { uri: 'file:///a.css' },
+          options: { tabSize, insertSpaces: true },
+        },
+      });
+    }
+
+    expect(sent.slice(2).map((message) => message.result)).toEqual([
+      [expect.objectContaining({ newText: 'a {\n color: red;\n}' })],
+      [
+        expect.objectContaining({
+          newText: `a {\n${' '.repeat(8)}color: red;\n}`,
+        }),
+      ],
+      [expect.objectContaining({ newText: 'a {\n  color: red;\n}' })],
+    ]);
+  });
+
+  test('should answer unknown requests with MethodNotFound', async () => {
+    const { server, sent } = await createServer();
+
+    await server.handle({ jsonrpc: '2.0', method: '$/cancelRequest' });
+    await server.handle({
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'textDocument/hover',
+    });
+
+    expect(sent.slice(1)).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 5,
+        error: { code: -32601, message: expect.any(String) },
+      },
+    ]);
+  });
+
+  test('should exit with 0 only after shutdown', async () => {
+    const { server, exitCodes } = await createServer();
+
+    await server.handle({ jsonrpc: '2.0', method: 'exit' });
+    await server.handle({ jsonrpc: '2.0', id: 9, method: 'shutdown' });
+    await server.handle({ jsonrpc: '2.0', method: 'exit' });
+
+    expect(exitCodes).toEqual([1, 0]);
+  });
+
+  /**
+   * lsp.ts를 자식 프로세스로 실행하고 종료 코드와 응답 메시지 반환
+   */
+  async function runStdio(messages: JsonRpcMessage[], cwd?: string) {
+    const child = Bun.spawn(
+      [process.execPath, join(import.meta.dir, '../../src/lsp.ts')],
+      { cwd, stdin: 'pipe', stdout: 'pipe', stderr: 'ignore' },
+    );
+
+    child.stdin.write(messages.map(encodeJsonRpcMessage).join(''));
+    await child.stdin.end();
+
+    const reader = new JsonRpcMessageReader();
+    const responses = reader.push(
+      Buffer.from(await new Response(child.stdout).arrayBuffer()),
+    );
+
+    return { exitCode: await child.exited, responses };
+  }
+
+  const shutdownAndExit: JsonRpcMessage[] = [
+    { jsonrpc: '2.0', id: 2, method: 'shutdown' },
+    { jsonrpc: '2.0', method: 'exit' },
+  ];
+
+  test('should speak LSP over stdio', async () => {
+    const { exitCode, responses } = await runStdio([
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { initializationOptions: { config } },
+      },
+      ...shutdownAndExit,
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(responses.map((message) => message?.id)).toEqual([1, 2]);
+  }, 20000);
+
+  test('should find the default preset when started from another directory', async () => {
+    const { exitCode, responses } = await runStdio(
+      [
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+        didOpen('file:///a.css', 'css', 'a {\n  color: #FFF;\n}'),
+        ...shutdownAndExit,
+      ],
+      tmpdir(),
+    );
+
+    expect(exitCode).toBe(0);
+    expect(responses[0]?.error).toBeUndefined();
+    expect(responses[1]).toMatchObject({
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        diagnostics: [{ code: '@stylistic/color-hex-case' }],
+      },
+    });
+  }, 20000);
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  createLintCacheKey,
+  getLintCacheStats,
+} from '../../src/services/lintCacheService';
+import { lintCode } from '../../src/services/lintService';
+import { LintRequest } from '../../src/types';
+
+const request: LintRequest = {
+  code: 'a { color: #FFF; }',
+  syntax: 'css',
+  config: {
+    rules: { 'color-hex-case': 'lower', 'color-named': 'never' },
+    outputStyle: 'nested',
+  },
+};
+
+describe('lintCacheService', () => {
+  describe('createLintCacheKey', () => {
+    test('should ignore rule order, rule aliases and timeoutMs', () => {
+      const key = createLintCacheKey(request);
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(
+        createLintCacheKey({
+          ...request,
+          config: {
+            outputStyle: 'nested',
+            rules: {
+              'color-named': 'never',
+              '@stylistic/color-hex-case': 'lower',
+            },
+            timeoutMs: 1000,
+          },
+        }),
+      ).toBe(key);
+    });
+
+    test('should change with code, syntax and output style', () => {
+      const key = createLintCacheKey(request);
+
+      expect(createLintCacheKey({ ...request, code: 'a {}' })).not.toBe(key);
+      expect(createLintCacheKey({ ...request, syntax: 'scss' })).not.toBe(key);
+      expect(
+        createLintCacheKey({
+          ...request,
+          config: { ...request.config, outputStyle: 'compact' },
+        }),
+      ).not.toBe(key);
+    });
+  });
+
+  describe('lintCode cache', () => {
+    test('should serve repeated requests from the cache', async () => {
+      const cachedRequest: LintRequest = {
+        ...request,
+        code: 'b { color: #ABC; }',
+      };
+      const before = getLintCacheStats();
+
+      const first = await lintCode(cachedRequest);
+      const second = await lintCode(cachedRequest);
+      const after = getLintCacheStats();
+
+      expect(second).toBe(first);
+      expect(after.hits).toBe(before.hits + 1);
+      expect(after.misses).toBe(before.misses + 1);
+      expect(after.hitRate).toBeGreaterThan(0);
+    });
+
+    test('should bypass the cache when disabled per call', async () => {
+      const uncachedRequest: LintRequest = {
+        ...request,
+        code: 'c { color: #DEF; }',
+      };
+
+      const first = await lintCode(uncachedRequest, { cache: false });
+      const second = await lintCode(uncachedRequest, { cache: false });
+
+      expect(second).not.toBe(first);
+      expect(second).toEqual(first);
+    });
+  });
+});
@@ -1,6 +1,12 @@
-import { describe, test, expect } from 'bun:test';
-import { lintCode } from '../../src/services/lintService';
-import { LintError } from '../../src/errors';
+import { describe, test, expect, spyOn } from 'bun:test';
+import {
+  lintBatch,
+  lintChangedLines,
+  lintCode,
+  validateLintConfig,
+} from '../../src/services/lintService';
+import * as ruleCatalogService from '../../src/services/ruleCatalogService';
+import { LintError, ValidationError } from '../../src/errors';
 import { LintRequest } from '../../src/types';
 
 describe('lintService', () => {
@@ -75,6 +81,21 @@ describe('lintService', () => {
         '지원하지 않는 출력 스타일입니다',
       );
     });
+
+    test('should throw error for a non-integer timeout', async () => {
+      const request: LintRequest = {
+        code: 'body { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          timeoutMs: 0.5,
+        },
+      };
+
+      await expect(lintCode(request)).rejects.toThrow(
+        '제한 시간은 1 이상의 정수(밀리초)여야 합니다',
+      );
+    });
   });
 
   describe('lintCode - CSS syntax', () => {
@@ -96,6 +117,66 @@ describe('lintService', () => {
       expect(result.content!.output).toContain('#fff');
     });
 
+    test('should minify output in compressed style', async () => {
+      const request: LintRequest = {
+        code: 'a, b {\n  color: #FFF;\n  margin: 0 auto;\n}\n',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'compressed',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.output).toBe('a,b{color:#fff;margin:0 auto}');
+    });
+
+    test('should apply format options to the output', async () => {
+      const request: LintRequest = {
+        code: "a { color: #FFF; content: 'x'; }",
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'nested',
+          format: {
+            indentSize: 4,
+            newline: 'crlf',
+            finalNewline: true,
+            quote: 'double',
+          },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.output).toBe(
+        'a {\r\n    color: #fff;\r\n    content: "x";\r\n}\r\n',
+      );
+    });
+
+    test('should reject invalid format options', async () => {
+      const request = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-no-invalid-hex': true },
+          outputStyle: 'nested',
+          format: { indentSize: 0 },
+        },
+      } as LintRequest;
+
+      await expect(lintCode(request)).rejects.toThrow(
+        '들여쓰기 크기가 올바르지 않습니다',
+      );
+      await expect(
+        lintCode({
+          ...request,
+          config: { ...request.config, format: { newline: 'cr' } },
+        } as unknown as LintRequest),
+      ).rejects.toThrow('지원하지 않는 줄바꿈 스타일입니다');
+    });
+
     test('should return warnings for rule violations', async () => {
       const request: LintRequest = {
         code: 'body { color: #FFF; }',
@@ -171,6 +252,191 @@ describe('lintService', () => {
     });
   });
 
+  describe('lintCode - warning details', () => {
+    test('should include end position, docs url and fixability', async () => {
+      const request: LintRequest = {
+        code: 'a { top: 0px; }',
+        syntax: 'css',
+        config: {
+          rules: { 'length-zero-no-unit': true },
+          fix: false,
+        },
+      };
+
+      const result = await lintCode(request);
+
+      const warning = result.content!.warnings.find(
+        (w) => w.rule === 'length-zero-no-unit',
+      );
+      expect(warning).toEqual({
+        line: 1,
+        column: 11,
+        endLine: 1,
+        endColumn: 13,
+        rule: 'length-zero-no-unit',
+        severity: 'error',
+        text: 'Unexpected unit (length-zero-no-unit)',
+        url: 'https://stylelint.io/user-guide/rules/length-zero-no-unit',
+        fixable: true,
+        autofixable: true,
+      });
+    });
+
+    test('should mark non-fixable rules', async () => {
+      const request: LintRequest = {
+        code: 'a { colr: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'property-no-unknown': true },
+          fix: false,
+        },
+      };
+
+      const result = await lintCode(request);
+
+      const warning = result.content!.warnings.find(
+        (w) => w.rule === 'property-no-unknown',
+      )!;
+      expect(warning.fixable).toBe(false);
+      expect(warning.autofixable).toBe(false);
+      expect(warning.url).toContain('property-no-unknown');
+    });
+
+    test('should not mark remaining warnings as autofixable after fixing', async () => {
+      const request: LintRequest = {
+        code: 'a { colr: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'property-no-unknown': true },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.warnings.length).toBeGreaterThan(0);
+      expect(result.content!.warnings.every((w) => !w.autofixable)).toBe(true);
+    });
+  });
+
+  describe('lintCode - fix modes', () => {
+    test('should return original code and warnings when fix is off', async () => {
+      const code = 'body{color:#FFF;}';
+      const request: LintRequest = {
+        code,
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'nested',
+          fix: false,
+        },
+      };
+
+      const result = await lintCode(request);
+
+      const content = result.content!;
+      expect(content.output).toBe(code);
+      expect(content.info.fix).toBe('off');
+      expect(content.warnings.some((w) => w.text.includes('#FFF'))).toBe(true);
+    });
+
+    test('should default to lax fix mode', async () => {
+      const request: LintRequest = {
+        code: 'body { color: #FFF; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.info.fix).toBe('lax');
+      expect(result.content!.output).toContain('#fff');
+    });
+
+    test('should apply strict fix mode', async () => {
+      const request: LintRequest = {
+        code: 'body { color: #FFF; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          fix: 'strict',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.info.fix).toBe('strict');
+      expect(result.content!.output).toContain('#fff');
+    });
+
+    test('should throw error for invalid fix option', async () => {
+      const request = {
+        code: 'body { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          fix: 'always',
+        },
+      };
+
+      await expect(lintCode(request as unknown as LintRequest)).rejects.toThrow(
+        '지원하지 않는 자동 수정 옵션입니다',
+      );
+    });
+  });
+
+  describe('lintCode - diff', () => {
+    test('should include diff between code and output when requested', async () => {
+      const request: LintRequest = {
+        code: 'body{color:#FFF;}',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'nested',
+          includeDiff: true,
+        },
+      };
+
+      const result = await lintCode(request);
+
+      const content = result.content!;
+      expect(content.diff).toBeDefined();
+      expect(content.diff!.unified).toContain('-body{color:#FFF;}');
+      expect(content.diff!.hunks).toHaveLength(1);
+      expect(content.diff!.hunks[0].added.join('\n')).toBe(content.output);
+    });
+
+    test('should omit diff by default', async () => {
+      const request: LintRequest = {
+        code: 'body { color: #FFF; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.diff).toBeUndefined();
+    });
+
+    test('should throw error for non-boolean includeDiff', async () => {
+      const request = {
+        code: 'body { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          includeDiff: 'yes',
+        },
+      };
+
+      await expect(lintCode(request as unknown as LintRequest)).rejects.toThrow(
+        '옵션 값은 boolean이어야 합니다',
+      );
+    });
+  });
+
   describe('lintCode - HTML syntax', () => {
     test('should lint CSS in HTML', async () => {
       const request: LintRequest = {
@@ -188,12 +454,54 @@ describe('lintService', () => {
       expect(result.content!.info.config.customSyntax).toBe('postcss-html');
     });
 
-    test('should not apply custom formatter for HTML syntax', async () => {
+    test('should format style blocks in place for HTML syntax', async () => {
+      const request: LintRequest = {
+        code: '<div>\n  <style> body { color: #FFF; } </style>\n</div>',
+        syntax: 'html',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'nested',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.success).toBe(true);
+      expect(result.content!.output).toBe(
+        [
+          '<div>',
+          '  <style>',
+          '    body {',
+          '      color: #fff;',
+          '    }',
+          '  </style>',
+          '</div>',
+        ].join('\n'),
+      );
+      expect(result.content!.formattedStyleBlocks).toBe(1);
+    });
+
+    test('should not report style blocks without outputStyle', async () => {
       const request: LintRequest = {
         code: '<style> body { color: red; } </style>',
         syntax: 'html',
+        config: { rules: { 'color-no-invalid-hex': true } },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.output).toBe(request.code);
+      expect(result.content!.formattedStyleBlocks).toBeUndefined();
+    });
+  });
+
+  describe('lintCode - preprocessor syntaxes', () => {
+    test('should lint and format SCSS', async () => {
+      const request: LintRequest = {
+        code: '@mixin m { color: #FFF; }\n.a { @include m; // note\n .b { margin: 0; } }',
+        syntax: 'scss',
         config: {
-          rules: { 'color-no-invalid-hex': true },
+          rules: { 'color-hex-case': 'lower' },
           outputStyle: 'nested',
         },
       };
@@ -201,9 +509,623 @@ describe('lintService', () => {
       const result = await lintCode(request);
 
       expect(result.success).toBe(true);
-      expect(result.content).not.toBeNull();
-      // Should return original HTML, not formatted CSS
-      expect(result.content!.output).toContain('<style>');
+      const content = result.content!;
+      expect(content.info.config.customSyntax).toBe('postcss-scss');
+      expect(content.output).toContain('color: #fff;');
+      expect(content.output).toContain('  @include m;');
+      expect(content.output).toContain('  // note');
+      expect(content.output).toContain('  .b {\n    margin: 0;\n  }');
+    });
+
+    test('should lint and format Less', async () => {
+      const request: LintRequest = {
+        code: '@main: #FFF;\n.a { .mixin(); color: @main; }',
+        syntax: 'less',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'compact',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.success).toBe(true);
+      const content = result.content!;
+      expect(content.info.config.customSyntax).toBe('postcss-less');
+      expect(content.output).toBe(
+        '@main: #fff;\n.a { .mixin(); color: @main; }',
+      );
+    });
+
+    test('should not reformat indented Sass', async () => {
+      const request: LintRequest = {
+        code: 'a\n  color: #FFF\n',
+        syntax: 'sass',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'compact',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.success).toBe(true);
+      expect(result.content!.output).toContain('a\n  color: #fff');
+      expect(result.content!.output).not.toContain('{');
+    });
+  });
+
+  describe('lintCode - presets', () => {
+    test('should lint with preset rules only', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #FFF; }',
+        syntax: 'css',
+        config: {
+          preset: 'standard',
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.success).toBe(true);
+      expect(result.content!.output).toContain('#fff');
+      expect(result.content!.info.config.preset).toBe('standard');
+    });
+
+    test('should let request rules override preset rules', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #fff; }',
+        syntax: 'css',
+        config: {
+          preset: 'standard',
+          rules: { 'color-hex-case': 'upper' },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.output).toContain('#FFF');
+    });
+
+    test('should throw error for unknown preset', async () => {
+      const request: LintRequest = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: {
+          preset: 'unknown',
+        },
+      };
+
+      await expect(lintCode(request)).rejects.toThrow(
+        '존재하지 않는 프리셋입니다',
+      );
+    });
+  });
+
+  describe('lintCode - extends and plugins', () => {
+    test('should apply requested extends and plugins', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #FFF; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          extends: ['stylelint-config-standard'],
+          plugins: ['@stylistic/stylelint-plugin'],
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.output).toContain('#fff');
+      expect(result.content!.info.config.extends).toEqual([
+        'stylelint-config-standard',
+      ]);
+      expect(result.content!.info.config.plugins).toEqual([
+        '@stylistic/stylelint-plugin',
+      ]);
+    });
+
+    test('should reject packages outside the allowlist', async () => {
+      const request: LintRequest = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-no-invalid-hex': true },
+          plugins: ['stylelint-order', 'stylelint-evil-plugin'],
+        },
+      };
+
+      const error = await lintCode(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).message).toContain(
+        '허용되지 않은 패키지입니다',
+      );
+      expect((error as ValidationError).context).toMatchObject({
+        option: 'plugins',
+        disallowed: ['stylelint-evil-plugin'],
+      });
+    });
+  });
+
+  describe('lintCode - diagnostics', () => {
+    test('should report clean results without config issues', async () => {
+      const request: LintRequest = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: { rules: { 'color-no-invalid-hex': true } },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content).toMatchObject({
+        errored: false,
+        invalidOptionWarnings: [],
+        deprecations: [],
+        parseErrors: [],
+      });
+    });
+
+    test('should set errored when error-severity warnings remain', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #ggg; }',
+        syntax: 'css',
+        config: { rules: { 'color-no-invalid-hex': true } },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.warnings).toHaveLength(1);
+      expect(result.content!.errored).toBe(true);
+    });
+
+    test('should not set errored for warning-severity rules', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #ggg; }',
+        syntax: 'css',
+        config: {
+          rules: { 'color-no-invalid-hex': [true, { severity: 'warning' }] },
+        },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.warnings).toHaveLength(1);
+      expect(result.content!.errored).toBe(false);
+    });
+
+    test('should report deprecated rules separately from warnings', async () => {
+      const request: LintRequest = {
+        code: '@import "foo.scss";\na { color: red; }',
+        syntax: 'scss',
+        config: { rules: { 'scss/at-import-partial-extension': 'never' } },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.deprecations).toContainEqual({
+        text: expect.stringContaining('scss/at-import-partial-extension'),
+      });
+      expect(
+        result.content!.warnings.some((warning) =>
+          warning.text.includes('deprecated'),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('lintCode - disable comment reports', () => {
+    const code = [
+      '/* stylelint-disable color-named */',
+      'a { color: #fff; }',
+      '/* stylelint-enable color-named */',
+      '/* stylelint-disable-next-line block-no-empty -- legacy markup */',
+      'b {}',
+      '/* stylelint-disable-next-line selector-max-id */',
+      '#c { color: #000; }',
+    ].join('\n');
+
+    test('should report disable comment problems separately', async () => {
+      const request: LintRequest = {
+        code,
+        syntax: 'css',
+        config: {
+          rules: { 'color-named': 'never', 'block-no-empty': true },
+          fix: false,
+          reportNeedlessDisables: true,
+          reportInvalidScopeDisables: true,
+          reportDescriptionlessDisables: true,
+        },
+      };
+
+      const result = await lintCode(request);
+      const { disableReports, warnings } = result.content!;
+
+      expect(warnings).toEqual([]);
+      expect(disableReports).toContainEqual({
+        type: 'needless',
+        rule: 'color-named',
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 35,
+        text: 'Needless disable for "color-named"',
+      });
+      expect(disableReports).toContainEqual(
+        expect.objectContaining({
+          type: 'invalid-scope',
+          rule: 'selector-max-id',
+          line: 6,
+        }),
+      );
+      expect(
+        disableReports
+          .filter((report) => report.type === 'descriptionless')
+          .map((report) => report.rule),
+      ).toEqual(['color-named', 'selector-max-id']);
+    });
+
+    test('should not report disable comments by default', async () => {
+      const request: LintRequest = {
+        code,
+        syntax: 'css',
+        config: { rules: { 'color-named': 'never' }, fix: false },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.content!.disableReports).toEqual([]);
+    });
+
+    test('should reject non-boolean report options', async () => {
+      const request = {
+        code,
+        syntax: 'css',
+        config: {
+          rules: { 'color-named': 'never' },
+          reportNeedlessDisables: 'yes',
+        },
+      } as unknown as LintRequest;
+
+      await expect(lintCode(request)).rejects.toThrow('reportNeedlessDisables');
+    });
+  });
+
+  describe('lintCode - rule validation', () => {
+    test('should reject unknown rules with suggestions', async () => {
+      const request: LintRequest = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: {
+          rules: {
+            'colour-hex-case': 'lower',
+            'color-no-invalid-hex': true,
+            'totally-made-up-rule-name': true,
+          },
+        },
+      };
+
+      const error = await lintCode(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).message).toContain(
+        'colour-hex-case, totally-made-up-rule-name',
+      );
+      expect((error as ValidationError).context).toEqual({
+        rules: [
+          {
+            rule: 'colour-hex-case',
+            reason: 'unknown-rule',
+            message: expect.stringContaining('@stylistic/color-hex-case'),
+            suggestion: '@stylistic/color-hex-case',
+          },
+          {
+            rule: 'totally-made-up-rule-name',
+            reason: 'unknown-rule',
+            message: '존재하지 않는 규칙입니다',
+          },
+        ],
+      });
+    });
+
+    test('should skip the unknown rule check when the catalog is unavailable', async () => {
+      const spy = spyOn(
+        ruleCatalogService,
+        'getKnownRuleNames',
+      ).mockRejectedValue(new Error('catalog failed'));
+
+      try {
+        await expect(
+          validateLintConfig({ rules: { 'totally-made-up-rule-name': true } }),
+        ).resolves.toBeUndefined();
+        expect(spy).toHaveBeenCalled();
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    test('should suggest plugin rules by their short name', async () => {
+      const request: LintRequest = {
+        code: 'a { color: red; }',
+        syntax: 'css',
+        config: { rules: { indentaton: 2 } },
+      };
+
+      const error = await lintCode(request).catch((e: unknown) => e);
+
+      expect((error as ValidationError).context).toMatchObject({
+        rules: [{ rule: 'indentaton', suggestion: '@stylistic/indentation' }],
+      });
+    });
+
+    test('should reject invalid rule options', async () => {
+      const request: LintRequest = {
+        code: 'a { color: #FFFFFF; }',
+        syntax: 'css',
+        config: {
+          rules: {
+            'color-hex-length': 'bogus',
+            'color-hex-case': 'sideways',
+            'color-no-invalid-hex': true,
+          },
+        },
+      };
+
+      const error = await lintCode(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      const { rules } = (error as ValidationError).context as {
+        rules: { rule: string; reason: string; message: string }[];
+      };
+      expect(rules.map((issue) => issue.rule).sort()).toEqual([
+        'color-hex-case',
+        'color-hex-length',
+      ]);
+      expect(rules.every((issue) => issue.reason === 'invalid-option')).toBe(
+        true,
+      );
+      expect(
+        rules.find((issue) => issue.rule === 'color-hex-length'),
+      ).toMatchObject({ message: expect.stringContaining('"bogus"') });
+    });
+
+    test('should accept rules from plugins loaded by extends', async () => {
+      const request: LintRequest = {
+        code: '$color: red;\na { color: $color; }',
+        syntax: 'scss',
+        config: { rules: { 'scss/dollar-variable-pattern': '^[a-z]+$' } },
+      };
+
+      const result = await lintCode(request);
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('lintBatch', () => {
+    test('should return results keyed by path', async () => {
+      const result = await lintBatch({
+        files: [
+          { path: 'a.css', code: 'a { color: #FFF; }', syntax: 'css' },
+          {
+            path: 'b.html',
+            code: '<style> b { color: #FFF; } </style>',
+            syntax: 'html',
+          },
+        ],
+        config: {
+          rules: { 'color-hex-case': 'lower' },
+          outputStyle: 'compact',
+        },
+      });
+
+      expect(result.success).toBe(true);
+      const content = result.content!;
+      expect(Object.keys(content.results)).toEqual(['a.css', 'b.html']);
+      expect(content.results['a.css'].success).toBe(true);
+      expect(content.results['a.css'].content!.output).toContain('#fff');
+      expect(content.results['b.html'].content!.info.config.customSyntax).toBe(
+        'postcss-html',
+      );
+      expect(content.summary).toEqual({ total: 2, succeeded: 2, failed: 0 });
+    });
+
+    test('should isolate per-file failures', async () => {
+      const result = await lintBatch({
+        files: [
+          { path: 'empty.css', code: '  ', syntax: 'css' },
+          { path: 'ok.css', code: 'a { color: red; }', syntax: 'css' },
+        ],
+        config: { rules: { 'color-no-invalid-hex': true } },
+      });
+
+      const content = result.content!;
+      expect(content.results['empty.css']).toEqual({
+        success: false,
+        message: 'CSS 코드가 비어있습니다',
+        content: null,
+      });
+      expect(content.results['ok.css'].success).toBe(true);
+      expect(content.summary).toEqual({ total: 2, succeeded: 1, failed: 1 });
+    });
+
+    test('should throw error for empty file list', async () => {
+      await expect(
+        lintBatch({
+          files: [],
+          config: { rules: { 'color-no-invalid-hex': true } },
+        }),
+      ).rejects.toThrow('최소 하나 이상의 파일이 필요합니다');
+    });
+
+    test('should throw error for duplicate paths', async () => {
+      await expect(
+        lintBatch({
+          files: [
+            { path: 'a.css', code: 'a {}', syntax: 'css' },
+            { path: 'a.css', code: 'b {}', syntax: 'css' },
+          ],
+          config: { rules: { 'color-no-invalid-hex': true } },
+        }),
+      ).rejects.toThrow('중복된 파일 경로가 있습니다');
+    });
+
+    test('should throw error for empty shared rules', async () => {
+      await expect(
+        lintBatch({
+          files: [{ path: 'a.css', code: 'a {}', syntax: 'css' }],
+          config: { rules: {} },
+        }),
+      ).rejects.toThrow('최소 하나 이상의 린트 규칙이 필요합니다');
+    });
+  });
+
+  describe('lintChangedLines', () => {
+    const code = 'a {\n  color: red;\n  background: blue;\n}\n';
+    const config: LintRequest['config'] = {
+      rules: { 'color-named': 'never' },
+      fix: false,
+    };
+
+    test('should keep only warnings on lines added by the diff', async () => {
+      const result = await lintChangedLines({
+        files: [{ path: 'src/a.css', code, syntax: 'css' }],
+        diff: [
+          '--- a/src/a.css',
+          '+++ b/src/a.css',
+          '@@ -1,3 +1,4 @@',
+          ' a {',
+          ' color: red;',
+          '+  background: blue;',
+          ' }',
+          '',
+        ].join('\n'),
+        config,
+      });
+
+      const file = result.content!.results['src/a.css'];
+      expect(file.content!.warnings.map((warning) => warning.line)).toEqual([
+        3,
+      ]);
+      expect(file.changedLines).toEqual([{ start: 3, end: 3 }]);
+      expect(file.filteredWarnings).toBe(1);
+      expect(result.content!.summary).toEqual({
+        total: 1,
+        succeeded: 1,
+        failed: 0,
+        warnings: 1,
+        filteredWarnings: 1,
+      });
+    });
+
+    test('should prefer explicit changed lines and clear errored', async () => {
+      const result = await lintChangedLines({
+        files: [
+          {
+            path: 'a.css',
+            code,
+            syntax: 'css',
+            changedLines: [{ start: 4, end: 4 }],
+          },
+          { path: 'b.css', code, syntax: 'css' },
+        ],
+        diff: '--- a/a.css\n+++ b/a.css\n@@ -1,1 +1,1 @@\n-x\n+a {\n',
+        config,
+      });
+
+      const { results, summary } = result.content!;
+      expect(results['a.css'].content!.warnings).toEqual([]);
+      expect(results['a.css'].content!.errored).toBe(false);
+      // diff에 없는 파일은 변경된 줄이 없음
+      expect(results['b.css'].changedLines).toEqual([]);
+      expect(summary.filteredWarnings).toBe(4);
+    });
+
+    test('should drop disable comment reports on unchanged lines', async () => {
+      const result = await lintChangedLines({
+        files: [
+          {
+            path: 'a.css',
+            code: '/* stylelint-disable-next-line color-named */\na { color: #fff; }\nb { color: red; }\n',
+            syntax: 'css',
+            changedLines: [{ start: 3, end: 3 }],
+          },
+        ],
+        config: { ...config, reportNeedlessDisables: true },
+      });
+
+      const file = result.content!.results['a.css'];
+      expect(file.content!.disableReports).toEqual([]);
+      expect(file.content!.warnings.map((warning) => warning.line)).toEqual([
+        3,
+      ]);
+      expect(file.filteredWarnings).toBe(1);
+      expect(result.content!.summary).toMatchObject({
+        warnings: 1,
+        filteredWarnings: 1,
+      });
+
+      const unchanged = await lintChangedLines({
+        files: [
+          {
+            path: 'a.css',
+            code: '/* stylelint-disable-next-line color-named */\na { color: #fff; }\n',
+            syntax: 'css',
+            changedLines: [{ start: 2, end: 2 }],
+          },
+        ],
+        config: { ...config, reportNeedlessDisables: true },
+      });
+
+      // 기존 줄의 비활성화 주석 문제는 errored에 영향을 주지 않음
+      expect(unchanged.content!.results['a.css'].content!.errored).toBe(false);
+      expect(unchanged.content!.results['a.css'].filteredWarnings).toBe(1);
+    });
+
+    test('should report failed files without filtering', async () => {
+      const result = await lintChangedLines({
+        files: [
+          {
+            path: 'empty.css',
+            code: ' ',
+            syntax: 'css',
+            changedLines: [{ start: 1, end: 1 }],
+          },
+        ],
+        config,
+      });
+
+      expect(result.content!.results['empty.css']).toMatchObject({
+        success: false,
+        content: null,
+        filteredWarnings: 0,
+      });
+      expect(result.content!.summary.failed).toBe(1);
+    });
+
+    test('should require a diff or changed lines for every file', async () => {
+      await expect(
+        lintChangedLines({
+          files: [{ path: 'a.css', code, syntax: 'css' }],
+          config,
+        }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test('should throw error for invalid line ranges', async () => {
+      await expect(
+        lintChangedLines({
+          files: [
+            {
+              path: 'a.css',
+              code,
+              syntax: 'css',
+              changedLines: [{ start: 3, end: 2 }],
+            },
+          ],
+          config,
+        }),
+      ).rejects.toThrow('줄 범위가 올바르지 않습니다');
     });
   });
 
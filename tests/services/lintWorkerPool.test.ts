@@ -0,0 +1,198 @@
+import { describe, test, expect, afterAll, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { LintWorkerPool } from '../../src/services/lintWorkerPool';
+import {
+  AppError,
+  CancelledError,
+  TimeoutError,
+  ValidationError,
+} from '../../src/errors';
+
+describe('LintWorkerPool', () => {
+  const pool = new LintWorkerPool(1);
+  const tempDir = mkdtempSync(join(tmpdir(), 'lint-worker-'));
+
+  afterAll(() => {
+    pool.terminate();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should lint in a worker and return the result', async () => {
+    const result = await pool.run({
+      code: 'a { color: #FFF; }',
+      syntax: 'css',
+      config: { rules: { 'color-hex-case': 'lower' } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.content?.output).toContain('#fff');
+  });
+
+  test('should queue requests beyond the pool size', async () => {
+    const results = await Promise.all(
+      ['#AAA', '#BBB', '#CCC'].map((color) =>
+        pool.run({
+          code: `a { color: ${color}; }`,
+          syntax: 'css',
+          config: { rules: { 'color-hex-case': 'lower' } },
+        }),
+      ),
+    );
+
+    expect(results.map((result) => result.content?.output)).toEqual([
+      expect.stringContaining('#aaa'),
+      expect.stringContaining('#bbb'),
+      expect.stringContaining('#ccc'),
+    ]);
+  });
+
+  test('should remove the abort listener when a request finishes', async () => {
+    const controller = new AbortController();
+    const added = spyOn(controller.signal, 'addEventListener');
+    const removed = spyOn(controller.signal, 'removeEventListener');
+
+    await pool.run(
+      {
+        code: 'a { color: #DDD; }',
+        syntax: 'css',
+        config: { rules: { 'color-hex-case': 'lower' } },
+      },
+      undefined,
+      controller.signal,
+    );
+
+    expect(added).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveBeenCalledWith('abort', added.mock.calls[0][1]);
+  });
+
+  test('should restore the original error class from the worker', async () => {
+    const error = await pool
+      .run({
+        code: 'a {}',
+        syntax: 'css',
+        config: { rules: {} },
+      })
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).statusCode).toBe(400);
+  });
+
+  test('should replace crashed workers and keep serving requests', async () => {
+    const scriptPath = join(tempDir, 'crashingWorker.ts');
+    writeFileSync(
+      scriptPath,
+      `self.onmessage = () => { throw new Error('boom'); };\n`,
+    );
+    const crashingPool = new LintWorkerPool(1, pathToFileURL(scriptPath));
+    const request = {
+      code: 'a {}',
+      syntax: 'css' as const,
+      config: { rules: { 'color-named': 'never' } },
+    };
+
+    try {
+      await expect(crashingPool.run(request)).rejects.toBeInstanceOf(AppError);
+      // 교체된 워커도 같은 스크립트이므로 다시 실패하지만 요청은 처리됨
+      await expect(crashingPool.run(request)).rejects.toBeInstanceOf(AppError);
+    } finally {
+      crashingPool.terminate();
+    }
+  });
+
+  test('should not run queued requests that are cancelled', async () => {
+    const scriptPath = join(tempDir, 'cancelWorker.ts');
+    writeFileSync(scriptPath, `self.onmessage = () => {};\n`);
+    const silentPool = new LintWorkerPool(1, pathToFileURL(scriptPath));
+    const request = {
+      code: 'a {}',
+      syntax: 'css' as const,
+      config: { rules: { 'color-named': 'never' } },
+    };
+    const controller = new AbortController();
+
+    try {
+      // 첫 요청이 워커를 차지하므로 두 번째 요청은 대기열에 남음
+      const running = silentPool.run(request, 50);
+      const queued = silentPool.run(request, 50, controller.signal);
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(CancelledError);
+      await expect(
+        silentPool.run(request, 50, controller.signal),
+      ).rejects.toBeInstanceOf(CancelledError);
+      await expect(running).rejects.toBeInstanceOf(TimeoutError);
+    } finally {
+      silentPool.terminate();
+    }
+  });
+
+  test('should replace the worker when a running request is cancelled', async () => {
+    const scriptPath = join(tempDir, 'abortWorker.ts');
+    writeFileSync(
+      scriptPath,
+      `self.onmessage = ({ data }) => {\n` +
+        `  if (data.request.code === 'hang') return;\n` +
+        `  postMessage({ result: { success: true, message: 'ok', content: null } });\n` +
+        `};\n`,
+    );
+    const abortPool = new LintWorkerPool(1, pathToFileURL(scriptPath));
+    const controller = new AbortController();
+
+    try {
+      const running = abortPool.run(
+        { code: 'hang', syntax: 'css', config: { rules: {} } },
+        undefined,
+        controller.signal,
+      );
+      const queued = abortPool.run({
+        code: 'a {}',
+        syntax: 'css',
+        config: { rules: {} },
+      });
+      controller.abort();
+
+      await expect(running).rejects.toBeInstanceOf(CancelledError);
+      // 교체된 워커가 대기 중이던 요청을 처리
+      expect((await queued).message).toBe('ok');
+    } finally {
+      abortPool.terminate();
+    }
+  });
+
+  test('should abort work that exceeds the timeout', async () => {
+    const scriptPath = join(tempDir, 'silentWorker.ts');
+    writeFileSync(scriptPath, `self.onmessage = () => {};\n`);
+    const silentPool = new LintWorkerPool(1, pathToFileURL(scriptPath));
+    const request = {
+      code: 'a {}',
+      syntax: 'css' as const,
+      config: { rules: { 'color-named': 'never' } },
+    };
+
+    try {
+      const error = await silentPool
+        .run(request, 50)
+        .catch((reason: unknown) => reason);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).statusCode).toBe(504);
+      expect((error as TimeoutError).context).toMatchObject({
+        timeoutMs: 50,
+      });
+      expect(
+        (error as TimeoutError).context?.elapsedMs as number,
+      ).toBeGreaterThanOrEqual(50);
+
+      // 교체된 워커가 다음 요청을 받음
+      await expect(silentPool.run(request, 50)).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    } finally {
+      silentPool.terminate();
+    }
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, test, expect } from 'bun:test';
+import { LiveLintSession } from '../../src/services/liveLintService';
+import { LintRequest, LiveLintServerMessage } from '../../src/types';
+import { ParseError } from '../../src/errors';
+import {
+  createControlledRunner,
+  createLintResult,
+} from '../helpers/lintRunner';
+
+const config: LintRequest['config'] = { rules: { 'color-named': 'never' } };
+
+/**
+ * 보낸 메시지를 기록하는 세션 생성
+ */
+function createSession() {
+  const messages: LiveLintServerMessage[] = [];
+  const { runner, calls } = createControlledRunner();
+  const session = new LiveLintSession(
+    (message) => messages.push(message),
+    runner,
+  );
+
+  return { session, messages, calls };
+}
+
+describe('liveLintService', () => {
+  describe('LiveLintSession', () => {
+    test('should reject updates before the session is opened', async () => {
+      const { session, messages, calls } = createSession();
+
+      await session.update(1, 'a {}');
+
+      expect(calls).toHaveLength(0);
+      expect(messages).toEqual([
+        expect.objectContaining({
+          type: 'error',
+          version: 1,
+          code: 'VALIDATION_ERROR',
+        }),
+      ]);
+    });
+
+    test('should validate the config when opening', async () => {
+      const { session, messages } = createSession();
+
+      await session.open('css', { rules: {} });
+      await session.open('css', config);
+
+      expect(messages).toEqual([
+        expect.objectContaining({ type: 'error', code: 'VALIDATION_ERROR' }),
+        { type: 'ready', syntax: 'css' },
+      ]);
+    });
+
+    test('should apply a pending open before the next update', async () => {
+      const { session, messages, calls } = createSession();
+
+      const opening = session.open('css', config);
+      const pending = session.update(1, 'a {}');
+      await opening;
+      await Bun.sleep(0);
+
+      expect(calls).toHaveLength(1);
+      calls[0].resolve(createLintResult('a {}'));
+      await pending;
+
+      expect(messages.map((message) => message.type)).toEqual([
+        'ready',
+        'result',
+      ]);
+    });
+
+    test('should push results tagged with the document version', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('scss', config);
+
+      const pending = session.update(1, 'a { color: red; }');
+      expect(calls[0].request).toEqual({
+        code: 'a { color: red; }',
+        syntax: 'scss',
+        config,
+      });
+      calls[0].resolve(createLintResult('a { color: red; }'));
+      await pending;
+
+      expect(messages[1]).toMatchObject({
+        type: 'result',
+        version: 1,
+        content: { output: 'a { color: red; }' },
+      });
+    });
+
+    test('should cancel stale lints when a newer version arrives', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('css', config);
+
+      const first = session.update(1, 'a {}');
+      const second = session.update(2, 'b {}');
+
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(calls[1].signal.aborted).toBe(false);
+
+      calls[1].resolve(createLintResult('b {}'));
+      calls[0].resolve(createLintResult('a {}'));
+      await Promise.all([first, second]);
+
+      expect(messages.slice(1)).toEqual([
+        expect.objectContaining({ type: 'result', version: 2 }),
+      ]);
+    });
+
+    test('should send an empty result for an empty document', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('css', config);
+
+      const pending = session.update(1, 'a {}');
+      await session.update(2, '  \n');
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(messages[1]).toMatchObject({
+        type: 'result',
+        version: 2,
+        content: { warnings: [], errored: false, output: '  \n' },
+      });
+
+      calls[0].resolve(createLintResult('a {}'));
+      await pending;
+      expect(messages).toHaveLength(2);
+    });
+
+    test('should reject versions that are not newer', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('css', config);
+
+      const pending = session.update(5, 'a {}');
+      await session.update(5, 'b {}');
+
+      expect(calls).toHaveLength(1);
+      expect(messages[1]).toMatchObject({
+        type: 'error',
+        version: 5,
+        context: { version: 5, latestVersion: 5 },
+      });
+
+      calls[0].resolve(createLintResult('a {}'));
+      await pending;
+    });
+
+    test('should report lint failures with the version', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('css', config);
+
+      const pending = session.update(3, 'a {');
+      calls[0].reject(new ParseError('Unclosed block'));
+      await pending;
+
+      expect(messages[1]).toEqual({
+        type: 'error',
+        version: 3,
+        message: 'Unclosed block',
+        code: 'PARSE_ERROR',
+      });
+    });
+
+    test('should cancel the in-flight lint when closed', async () => {
+      const { session, messages, calls } = createSession();
+      await session.open('css', config);
+
+      const pending = session.update(1, 'a {}');
+      session.close();
+      calls[0].resolve(createLintResult('a {}'));
+      await pending;
+
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(messages).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  getRuleCatalog,
+  warmRuleCatalog,
+} from '../../src/services/ruleCatalogService';
+
+describe('ruleCatalogService', () => {
+  describe('getRuleCatalog', () => {
+    test('should list core rules with metadata', async () => {
+      const catalog = await getRuleCatalog();
+      const rule = catalog.find(
+        (entry) => entry.name === 'color-no-invalid-hex',
+      );
+
+      expect(rule).toEqual({
+        name: 'color-no-invalid-hex',
+        source: 'stylelint',
+        url: 'https://stylelint.io/user-guide/rules/color-no-invalid-hex',
+        fixable: false,
+        deprecated: false,
+        enabledByDefault: true,
+        enabledBy: expect.arrayContaining(['stylelint-config-standard']),
+      });
+    });
+
+    test('should include rules from allowed plugins', async () => {
+      const catalog = await getRuleCatalog();
+      const sources = new Set(catalog.map((entry) => entry.source));
+
+      expect(sources).toContain('stylelint-order');
+      expect(sources).toContain('@stylistic/stylelint-plugin');
+      expect(
+        catalog.find((entry) => entry.name === 'order/properties-order'),
+      ).toMatchObject({ fixable: true, enabledByDefault: false });
+    });
+
+    test('should include plugins loaded by extended configs', async () => {
+      const catalog = await getRuleCatalog();
+      const rule = catalog.find(
+        (entry) => entry.name === 'scss/at-rule-no-unknown',
+      );
+
+      expect(rule).toMatchObject({
+        source: 'stylelint-scss',
+        enabledByDefault: true,
+        enabledBy: ['stylelint-config-recommended-scss'],
+      });
+    });
+
+    test('should flag fixable and deprecated rules', async () => {
+      const catalog = await getRuleCatalog();
+
+      expect(
+        catalog.find((entry) => entry.name === 'color-hex-length')?.fixable,
+      ).toBe(true);
+      expect(catalog.some((entry) => entry.deprecated)).toBe(true);
+    });
+
+    test('should return rules sorted by name', async () => {
+      const catalog = await getRuleCatalog();
+      const names = catalog.map((entry) => entry.name);
+
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+    });
+  });
+
+  describe('warmRuleCatalog', () => {
+    test('should build the catalog once for later lookups', async () => {
+      await expect(warmRuleCatalog()).resolves.toBeUndefined();
+
+      const catalog = await getRuleCatalog();
+      expect(catalog.length).toBeGreaterThan(0);
+      expect(await getRuleCatalog()).toBe(catalog);
+    });
+  });
+});
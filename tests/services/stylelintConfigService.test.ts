@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'bun:test';
+import styleLint from 'stylelint';
+import { createStylelintConfig } from '../../src/config/stylelint';
+import {
+  resolveStylelintConfig,
+  warmStylelintConfigs,
+} from '../../src/services/stylelintConfigService';
+
+describe('stylelintConfigService', () => {
+  describe('resolveStylelintConfig', () => {
+    test('should merge extends and load plugins', async () => {
+      const { config } = await resolveStylelintConfig(
+        createStylelintConfig({ 'color-named': 'never' }, 'scss'),
+      );
+
+      expect(config.extends).toBeUndefined();
+      expect(config.customSyntax).toBe('postcss-scss');
+      expect(config.rules?.['color-named']).toEqual(['never']);
+      // stylelint-config-standard의 규칙이 병합됨
+      expect(config.rules?.['color-hex-length']).toBeDefined();
+      expect(config.pluginFunctions?.['order/order']).toBeDefined();
+    });
+
+    test('should resolve each distinct config only once', async () => {
+      const first = await resolveStylelintConfig(
+        createStylelintConfig({ 'selector-max-id': 7 }, 'less'),
+      );
+      const second = await resolveStylelintConfig(
+        createStylelintConfig({ 'selector-max-id': 7 }, 'less'),
+      );
+      const other = await resolveStylelintConfig(
+        createStylelintConfig({ 'selector-max-id': 7 }, 'css'),
+      );
+
+      expect(first.cached).toBe(false);
+      expect(second.cached).toBe(true);
+      expect(second.config).toBe(first.config);
+      expect(other.cached).toBe(false);
+    });
+
+    test('should lint the same as the unresolved config', async () => {
+      const stylelintConfig = createStylelintConfig(
+        { 'color-hex-case': 'lower', 'color-named': 'never' },
+        'css',
+      );
+      const code = 'a { color: red; background: #FFF; }';
+      const { config } = await resolveStylelintConfig(stylelintConfig);
+
+      const expected = await styleLint.lint({ code, config: stylelintConfig });
+      const actual = await styleLint.lint({ code, config: { ...config } });
+
+      expect(actual.results[0].warnings).toEqual(expected.results[0].warnings);
+    });
+
+    test('should not cache configs that fail to resolve', async () => {
+      const config = {
+        ...createStylelintConfig({ 'color-named': 'never' }, 'css'),
+        extends: ['stylelint-config-does-not-exist'],
+      };
+
+      await expect(resolveStylelintConfig(config)).rejects.toThrow();
+      await expect(resolveStylelintConfig(config)).rejects.toThrow();
+    });
+  });
+
+  describe('warmStylelintConfigs', () => {
+    test('should resolve the default config of every syntax', async () => {
+      await warmStylelintConfigs();
+
+      const { cached } = await resolveStylelintConfig(
+        createStylelintConfig({}, 'html'),
+      );
+
+      expect(cached).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  createLintDiff,
+  isLineInRanges,
+  parseChangedLines,
+} from '../../src/utils/diff';
+
+describe('diff', () => {
+  describe('createLintDiff', () => {
+    test('should create unified diff with file headers', () => {
+      const diff = createLintDiff('a{color:#FFF}\n', 'a { color: #fff; }\n');
+
+      expect(diff.unified).toContain('--- a/input');
+      expect(diff.unified).toContain('+++ b/input');
+      expect(diff.unified).toContain('-a{color:#FFF}');
+      expect(diff.unified).toContain('+a { color: #fff; }');
+    });
+
+    test('should return structured hunks with line ranges', () => {
+      const diff = createLintDiff(
+        'a {\n  color: #FFF;\n}\n',
+        'a {\n  color: #fff;\n}\n',
+      );
+
+      expect(diff.hunks).toEqual([
+        {
+          oldStart: 1,
+          oldLines: 3,
+          newStart: 1,
+          newLines: 3,
+          removed: ['  color: #FFF;'],
+          added: ['  color: #fff;'],
+        },
+      ]);
+    });
+
+    test('should return no hunks for identical code', () => {
+      const diff = createLintDiff('a {}', 'a {}');
+
+      expect(diff.hunks).toEqual([]);
+    });
+
+    test('should skip no-newline markers', () => {
+      const diff = createLintDiff('a{}', 'a {}');
+
+      expect(diff.hunks[0].removed).toEqual(['a{}']);
+      expect(diff.hunks[0].added).toEqual(['a {}']);
+    });
+
+    test('should use custom file name', () => {
+      const diff = createLintDiff('a{}', 'a {}', 'src/app.css');
+
+      expect(diff.unified).toContain('--- a/src/app.css');
+    });
+  });
+
+  describe('parseChangedLines', () => {
+    const gitDiff = [
+      'diff --git a/src/a.css b/src/a.css',
+      '--- a/src/a.css',
+      '+++ b/src/a.css',
+      '@@ -1,3 +1,4 @@',
+      ' a {',
+      '-  color: blue;',
+      '+  color: red;',
+      '+  margin: 0;',
+      ' }',
+      '@@ -10,2 +11,3 @@ b {',
+      ' x',
+      '+y',
+      ' z',
+      'diff --git a/old.css b/old.css',
+      '--- a/old.css',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-a {}',
+      '--- /dev/null',
+      '+++ b/new.scss',
+      '@@ -0,0 +1,2 @@',
+      '+a {}',
+      '+b {}',
+      '',
+    ].join('\n');
+
+    test('should collect added line ranges per file', () => {
+      expect(parseChangedLines(gitDiff)).toEqual(
+        new Map([
+          [
+            'src/a.css',
+            [
+              { start: 2, end: 3 },
+              { start: 12, end: 12 },
+            ],
+          ],
+          ['new.scss', [{ start: 1, end: 2 }]],
+        ]),
+      );
+    });
+
+    test('should keep paths without the git prefix as they are', () => {
+      const changed = parseChangedLines(
+        '--- a.css\n+++ a.css\n@@ -1,1 +1,1 @@\n-a {}\n+b {}\n',
+      );
+
+      expect(changed.get('a.css')).toEqual([{ start: 1, end: 1 }]);
+    });
+
+    test('should throw ValidationError when no hunks are found', () => {
+      expect(() => parseChangedLines('not a diff')).toThrow(
+        'unified diff에서 파일 변경 구간을 찾을 수 없습니다',
+      );
+    });
+  });
+
+  describe('isLineInRanges', () => {
+    test('should include both ends of a range', () => {
+      const ranges = [{ start: 2, end: 4 }];
+
+      expect([1, 2, 4, 5].map((line) => isLineInRanges(line, ranges))).toEqual([
+        false,
+        true,
+        true,
+        false,
+      ]);
+    });
+  });
+});
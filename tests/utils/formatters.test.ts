@@ -1,6 +1,13 @@
 import { describe, test, expect } from 'bun:test';
-import postcss from 'postcss';
-import { compactFormatter, nestedFormatter } from '../../src/utils/formatters';
+import postcss, { Root } from 'postcss';
+import postcssScss from 'postcss-scss';
+import postcssLess from 'postcss-less';
+import {
+  compactFormatter,
+  compressedFormatter,
+  expandedFormatter,
+  nestedFormatter,
+} from '../../src/utils/formatters';
 
 describe('formatters', () => {
   describe('compactFormatter', () => {
@@ -169,4 +176,350 @@ describe('formatters', () => {
       expect(result).toContain('  color: red;');
     });
   });
+
+  describe('expandedFormatter', () => {
+    test('should separate rule blocks with blank lines', () => {
+      const css = 'a { color: red; } b { margin: 0; }';
+      const root = postcss.parse(css);
+      const result = expandedFormatter(root);
+
+      expect(result).toBe(
+        ['a {', '  color: red;', '}', '', 'b {', '  margin: 0;', '}'].join(
+          '\n',
+        ),
+      );
+    });
+
+    test('should keep statements together and comments on their block', () => {
+      const css = `
+        @import url("a.css");
+        @import url("b.css");
+        /* Main styles */
+        body { color: red; }
+      `;
+      const root = postcss.parse(css);
+      const result = expandedFormatter(root);
+
+      expect(result).toBe(
+        [
+          '@import url("a.css");',
+          '@import url("b.css");',
+          '',
+          '/* Main styles */',
+          'body {',
+          '  color: red;',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    test('should separate nested blocks inside @media', () => {
+      const css = '@media print { a { color: red; } b { color: blue; } }';
+      const root = postcss.parse(css);
+      const result = expandedFormatter(root);
+
+      expect(result).toBe(
+        [
+          '@media print {',
+          '  a {',
+          '    color: red;',
+          '  }',
+          '',
+          '  b {',
+          '    color: blue;',
+          '  }',
+          '}',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('compressedFormatter', () => {
+    test('should remove whitespace and the last semicolon', () => {
+      const css = `
+        a > b,
+        .c ~ d {
+          color: rgba(0, 0, 0, 0.5);
+          margin: 0 auto;
+        }
+      `;
+      const root = postcss.parse(css);
+      const result = compressedFormatter(root);
+
+      expect(result).toBe('a>b,.c~d{color:rgba(0,0,0,0.5);margin:0 auto}');
+    });
+
+    test('should keep whitespace inside strings', () => {
+      const root = postcss.parse('a::before { content: "x ,  y"; }');
+      const result = compressedFormatter(root);
+
+      expect(result).toBe('a::before{content:"x ,  y"}');
+    });
+
+    test('should separate statements and nested blocks', () => {
+      const css = `
+        @charset "UTF-8";
+        @import url("a.css");
+        @media screen and (max-width: 600px) { a { color: red; } }
+        @keyframes fade { from { opacity: 0; } to { opacity: 1; } }
+      `;
+      const root = postcss.parse(css);
+      const result = compressedFormatter(root);
+
+      expect(result).toBe(
+        '@charset "utf-8";@import url("a.css");' +
+          '@media screen and (max-width: 600px){a{color:red}}' +
+          '@keyframes fade{from{opacity:0}to{opacity:1}}',
+      );
+    });
+
+    test('should drop comments except preserved ones', () => {
+      const css = '/*! license */ /* note */ a { /* inner */ color: red; }';
+      const root = postcss.parse(css);
+      const result = compressedFormatter(root);
+
+      expect(result).toBe('/*! license*/a{color:red}');
+    });
+  });
+
+  describe('nesting and at-rules', () => {
+    const css = `
+      @layer base {
+        @supports (display: grid) {
+          .a { display: grid !important; /* grid */ }
+        }
+      }
+      @container card (min-width: 400px) {
+        .b { .c { color: red; } @media (hover) { color: blue; } }
+      }
+    `;
+
+    test('should print every at-rule and nested rule in nested style', () => {
+      const result = nestedFormatter(postcss.parse(css));
+
+      expect(result).toBe(
+        [
+          '@layer base {',
+          '  @supports (display: grid) {',
+          '    .a {',
+          '      display: grid !important;',
+          '      /* grid */',
+          '    }',
+          '  }',
+          '}',
+          '@container card (min-width: 400px) {',
+          '  .b {',
+          '    .c {',
+          '      color: red;',
+          '    }',
+          '    @media (hover) {',
+          '      color: blue;',
+          '    }',
+          '  }',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    test('should expand grouping at-rules in compact style', () => {
+      const result = compactFormatter(postcss.parse(css));
+
+      expect(result).toBe(
+        [
+          '@layer base {',
+          '  @supports (display: grid) {',
+          '    .a { display: grid !important; /* grid */ }',
+          '  }',
+          '}',
+          '@container card (min-width: 400px) {',
+          '  .b { .c { color: red; } @media (hover) { color: blue; } }',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    test('should keep !important in compressed style', () => {
+      const result = compressedFormatter(postcss.parse(css));
+
+      expect(result).toBe(
+        '@layer base{@supports (display: grid){.a{display:grid!important}}}' +
+          '@container card (min-width: 400px){.b{.c{color:red}@media (hover){color:blue}}}',
+      );
+    });
+
+    test('should print each nested node exactly once', () => {
+      const root = postcss.parse(css);
+
+      for (const formatter of [
+        compactFormatter,
+        nestedFormatter,
+        expandedFormatter,
+        compressedFormatter,
+      ]) {
+        const result = formatter(root);
+        expect(result.match(/\.c/g)).toHaveLength(1);
+        expect(result.match(/@media/g)).toHaveLength(1);
+      }
+    });
+
+    test('should print at-rules without nested blocks on one line in compact style', () => {
+      const root = postcss.parse(
+        '@font-face { font-family: x; src: url(a.woff); }\n@layer a, b;',
+      );
+
+      expect(compactFormatter(root)).toBe(
+        '@font-face { font-family: x; src: url(a.woff); }\n@layer a, b;',
+      );
+    });
+
+    test('should print empty blocks on one line', () => {
+      const root = postcss.parse('a {}\n@media print {}');
+
+      expect(nestedFormatter(root)).toBe('a {}\n@media print {}');
+      expect(compressedFormatter(root)).toBe('a{}@media print{}');
+    });
+  });
+
+  describe('format options', () => {
+    const css = '@import "a.css";\na { content: "it\'s"; }';
+
+    test('should indent with the requested number of spaces', () => {
+      const root = postcss.parse('@media print { a { color: red; } }');
+      const result = nestedFormatter(root, { indentSize: 4 });
+
+      expect(result).toBe(
+        ['@media print {', '    a {', '        color: red;', '    }', '}'].join(
+          '\n',
+        ),
+      );
+    });
+
+    test('should indent with tabs', () => {
+      const root = postcss.parse('@media print { a { color: red; } }');
+
+      expect(compactFormatter(root, { useTabs: true })).toBe(
+        '@media print {\n\ta { color: red; }\n}',
+      );
+      expect(expandedFormatter(root, { useTabs: true, indentSize: 4 })).toBe(
+        '@media print {\n\ta {\n\t\tcolor: red;\n\t}\n}',
+      );
+    });
+
+    test('should use CRLF line endings and a final newline', () => {
+      const root = postcss.parse('a { color: red; }');
+      const result = nestedFormatter(root, {
+        newline: 'crlf',
+        finalNewline: true,
+      });
+
+      expect(result).toBe('a {\r\n  color: red;\r\n}\r\n');
+    });
+
+    test('should add a final newline to compressed output', () => {
+      const root = postcss.parse('a { color: red; }');
+
+      expect(compressedFormatter(root, { finalNewline: true })).toBe(
+        'a{color:red}\n',
+      );
+    });
+
+    test('should convert string quotes', () => {
+      const root = postcss.parse(css);
+
+      expect(compactFormatter(root, { quote: 'single' })).toBe(
+        "@import 'a.css';\na { content: 'it\\'s'; }",
+      );
+      expect(
+        compactFormatter(postcss.parse('a[title=\'x "y"\'] { }'), {
+          quote: 'double',
+        }),
+      ).toBe('a[title="x \\"y\\""] {}');
+    });
+
+    test('should keep quotes by default and for @charset', () => {
+      const root = postcss.parse(`@charset "UTF-8";\n${css}`);
+
+      expect(compactFormatter(root)).toBe(
+        '@charset "utf-8";\n@import "a.css";\na { content: "it\'s"; }',
+      );
+      expect(compactFormatter(root, { quote: 'single' })).toContain(
+        '@charset "utf-8";',
+      );
+    });
+  });
+
+  describe('preprocessor syntaxes', () => {
+    const scss = `
+      @mixin rounded($r) { border-radius: $r; }
+      .card {
+        @include rounded(4px);
+        // card title
+        color: red;
+        &:hover { color: blue; }
+      }
+    `;
+
+    test('should keep nested rules and @include in nested style', () => {
+      const root = postcssScss.parse(scss);
+      const result = nestedFormatter(root);
+
+      expect(result).toBe(
+        [
+          '@mixin rounded($r) {',
+          '  border-radius: $r;',
+          '}',
+          '.card {',
+          '  @include rounded(4px);',
+          '  // card title',
+          '  color: red;',
+          '  &:hover {',
+          '    color: blue;',
+          '  }',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    test('should convert // comments to block comments in compact style', () => {
+      const root = postcssScss.parse(scss);
+      const result = compactFormatter(root);
+
+      expect(result).toBe(
+        [
+          '@mixin rounded($r) { border-radius: $r; }',
+          '.card { @include rounded(4px); /* card title */ color: red; &:hover { color: blue; } }',
+        ].join('\n'),
+      );
+    });
+
+    test('should compress nested rules and @include', () => {
+      const root = postcssScss.parse(scss);
+      const result = compressedFormatter(root);
+
+      expect(result).toBe(
+        '@mixin rounded($r){border-radius:$r}' +
+          '.card{@include rounded(4px);color:red;&:hover{color:blue}}',
+      );
+    });
+
+    test('should print nested rules only once', () => {
+      const root = postcssScss.parse('.a { .b { color: red; } }');
+      const result = nestedFormatter(root);
+
+      expect(result.match(/\.b \{/g)).toHaveLength(1);
+    });
+
+    test('should restore Less variables and mixin calls', () => {
+      const root = postcssLess.parse(
+        '@color: red;\n.a { .bordered(); color: @color; }',
+      ) as Root;
+
+      expect(nestedFormatter(root)).toBe(
+        '@color: red;\n.a {\n  .bordered();\n  color: @color;\n}',
+      );
+      expect(compactFormatter(root)).toBe(
+        '@color: red;\n.a { .bordered(); color: @color; }',
+      );
+    });
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  compressedFormatter,
+  nestedFormatter,
+} from '../../src/utils/formatters';
+import { formatHtmlStyleBlocks } from '../../src/utils/htmlFormatter';
+
+describe('htmlFormatter', () => {
+  describe('formatHtmlStyleBlocks', () => {
+    const html = [
+      '<template>',
+      '  <div style="color:red">x</div>',
+      '</template>',
+      '<style scoped>',
+      'a{color:red;margin:0}',
+      '</style>',
+      '<div>',
+      '    <style lang="scss">',
+      '    .b { .c { color: blue } }',
+      '    </style>',
+      '</div>',
+      '',
+    ].join('\n');
+
+    test('should format each style block relative to its tag', () => {
+      const result = formatHtmlStyleBlocks(html, nestedFormatter);
+
+      expect(result.formattedBlocks).toBe(2);
+      expect(result.output).toBe(
+        [
+          '<template>',
+          '  <div style="color:red">x</div>',
+          '</template>',
+          '<style scoped>',
+          '  a {',
+          '    color: red;',
+          '    margin: 0;',
+          '  }',
+          '</style>',
+          '<div>',
+          '    <style lang="scss">',
+          '      .b {',
+          '        .c {',
+          '          color: blue;',
+          '        }',
+          '      }',
+          '    </style>',
+          '</div>',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    test('should count only blocks that changed', () => {
+      const once = formatHtmlStyleBlocks(html, nestedFormatter);
+      const twice = formatHtmlStyleBlocks(once.output, nestedFormatter);
+
+      expect(twice.output).toBe(once.output);
+      expect(twice.formattedBlocks).toBe(0);
+    });
+
+    test('should leave sass, empty blocks and style attributes untouched', () => {
+      const source = [
+        '<p style="color:red">x</p>',
+        '<style lang="sass">',
+        'a',
+        '  color: red',
+        '</style>',
+        '<style></style>',
+      ].join('\n');
+
+      const result = formatHtmlStyleBlocks(source, nestedFormatter);
+
+      expect(result.output).toBe(source);
+      expect(result.formattedBlocks).toBe(0);
+    });
+
+    test('should apply indentation and newline options', () => {
+      const result = formatHtmlStyleBlocks(
+        '<style>a{color:red}</style>',
+        compressedFormatter,
+        { useTabs: true, newline: 'crlf' },
+      );
+
+      expect(result.output).toBe('<style>\r\n\ta{color:red}\r\n</style>');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  JsonRpcMessageReader,
+  encodeJsonRpcMessage,
+} from '../../src/utils/jsonRpc';
+
+describe('jsonRpc', () => {
+  describe('encodeJsonRpcMessage', () => {
+    test('should prefix the body with its byte length', () => {
+      const frame = encodeJsonRpcMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        result: '경고',
+      });
+      const body = '{"jsonrpc":"2.0","id":1,"result":"경고"}';
+
+      expect(frame).toBe(
+        `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+      );
+    });
+  });
+
+  describe('JsonRpcMessageReader', () => {
+    test('should read messages split across chunks', () => {
+      const reader = new JsonRpcMessageReader();
+      const frame = encodeJsonRpcMessage({
+        jsonrpc: '2.0',
+        method: 'initialized',
+        params: { text: 'a { content: "한글"; }' },
+      });
+      const bytes = Buffer.from(frame);
+
+      expect(reader.push(bytes.subarray(0, 10))).toEqual([]);
+      expect(reader.push(bytes.subarray(10, bytes.length - 3))).toEqual([]);
+      expect(reader.push(bytes.subarray(bytes.length - 3))).toEqual([
+        {
+          jsonrpc: '2.0',
+          method: 'initialized',
+          params: { text: 'a { content: "한글"; }' },
+        },
+      ]);
+    });
+
+    test('should read several messages from one chunk', () => {
+      const reader = new JsonRpcMessageReader();
+
+      const messages = reader.push(
+        encodeJsonRpcMessage({ jsonrpc: '2.0', id: 1, method: 'shutdown' }) +
+          encodeJsonRpcMessage({ jsonrpc: '2.0', method: 'exit' }),
+      );
+
+      expect(messages.map((message) => message?.method)).toEqual([
+        'shutdown',
+        'exit',
+      ]);
+    });
+
+    test('should return null for bodies that are not JSON', () => {
+      const reader = new JsonRpcMessageReader();
+
+      expect(reader.push('Content-Length: 3\r\n\r\n{x}')).toEqual([null]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'bun:test';
+import { LRUCache } from '../../src/utils/lruCache';
+
+describe('LRUCache', () => {
+  test('should evict the least recently used entry', () => {
+    const cache = new LRUCache<number>(2, 60000);
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    // a를 조회하여 가장 최근 사용 항목으로 갱신
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  test('should delete entries', () => {
+    const cache = new LRUCache<number>(10, 60000);
+
+    cache.set('a', 1);
+    cache.delete('a');
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  test('should check entries without touching the stats', async () => {
+    const cache = new LRUCache<number>(10, 5);
+
+    cache.set('a', 1);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 0 });
+
+    await Bun.sleep(10);
+    expect(cache.has('a')).toBe(false);
+  });
+
+  test('should expire entries after the TTL', async () => {
+    const cache = new LRUCache<number>(10, 5);
+
+    cache.set('a', 1);
+    await Bun.sleep(10);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  test('should count hits and misses', () => {
+    const cache = new LRUCache<number>(10, 60000);
+
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+
+    expect(cache.stats()).toEqual({
+      hits: 2,
+      misses: 1,
+      size: 1,
+      capacity: 10,
+      bytes: 0,
+      maxBytes: Infinity,
+      ttlMs: 60000,
+    });
+
+    cache.clear();
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+  });
+
+  test('should evict entries beyond the byte budget', () => {
+    const cache = new LRUCache<string>(10, 60000, 10, (value) => value.length);
+
+    cache.set('a', 'aaaa');
+    cache.set('b', 'bbbb');
+    cache.set('c', 'cccc');
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe('bbbb');
+    expect(cache.stats()).toMatchObject({ size: 2, bytes: 8, maxBytes: 10 });
+
+    // 갱신한 항목은 새 크기로 계산
+    cache.set('b', 'bb');
+    expect(cache.stats()).toMatchObject({ size: 2, bytes: 6 });
+  });
+
+  test('should not store a value larger than the byte budget', () => {
+    const cache = new LRUCache<string>(10, 60000, 10, (value) => value.length);
+
+    cache.set('a', 'aaaa');
+    cache.set('big', 'x'.repeat(11));
+
+    expect(cache.get('big')).toBeUndefined();
+    expect(cache.get('a')).toBe('aaaa');
+    expect(cache.stats()).toMatchObject({ size: 1, bytes: 4 });
+  });
+
+  test('should store nothing when capacity is 0', () => {
+    const cache = new LRUCache<number>(0, 60000);
+
+    cache.set('a', 1);
+
+    expect(cache.enabled).toBe(false);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  checkstyleReporter,
+  githubReporter,
+  junitReporter,
+  resolveReportFormat,
+  sarifReporter,
+  textReporter,
+} from '../../src/utils/reporters';
+import { ReportFile, StylelintWarning } from '../../src/types';
+
+const warning: StylelintWarning = {
+  line: 2,
+  column: 3,
+  endLine: 2,
+  endColumn: 8,
+  rule: 'color-named',
+  severity: 'error',
+  text: 'Unexpected named color "red" (color-named)',
+  url: 'https://stylelint.io/user-guide/rules/color-named',
+  fixable: false,
+  autofixable: false,
+};
+
+const files: ReportFile[] = [
+  { path: 'a.css', warnings: [warning] },
+  { path: 'b.css', warnings: [] },
+  { path: 'c.css', warnings: [], error: 'CSS 코드가 비어있습니다' },
+];
+
+describe('reporters', () => {
+  describe('sarifReporter', () => {
+    test('should build a SARIF 2.1.0 log', () => {
+      const log = JSON.parse(sarifReporter(files, '16.26.1'));
+      const [run] = log.runs;
+
+      expect(log.version).toBe('2.1.0');
+      expect(run.tool.driver).toMatchObject({
+        name: 'stylelint',
+        version: '16.26.1',
+        rules: [{ id: 'color-named', helpUri: warning.url }],
+      });
+      expect(run.results).toEqual([
+        {
+          ruleId: 'color-named',
+          ruleIndex: 0,
+          level: 'error',
+          message: { text: warning.text },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: 'a.css' },
+                region: {
+                  startLine: 2,
+                  startColumn: 3,
+                  endLine: 2,
+                  endColumn: 8,
+                },
+              },
+            },
+          ],
+        },
+      ]);
+    });
+
+    test('should report failed files as execution notifications', () => {
+      const [run] = JSON.parse(sarifReporter(files, '16.26.1')).runs;
+      const [invocation] = run.invocations;
+
+      expect(invocation.executionSuccessful).toBe(false);
+      expect(invocation.toolExecutionNotifications).toHaveLength(1);
+      expect(invocation.toolExecutionNotifications[0].message.text).toBe(
+        'CSS 코드가 비어있습니다',
+      );
+    });
+  });
+
+  describe('checkstyleReporter', () => {
+    test('should emit one error element per warning with escaped text', () => {
+      const xml = checkstyleReporter(files, '16.26.1');
+
+      expect(xml).toStartWith('<?xml version="1.0" encoding="utf-8"?>');
+      expect(xml).toContain('<file name="a.css">');
+      expect(xml).toContain(
+        '<error line="2" column="3" severity="error" message="Unexpected named color &quot;red&quot; (color-named)" source="stylelint.rules.color-named"/>',
+      );
+      expect(xml).toContain('<file name="b.css">\n  </file>');
+      expect(xml).toContain(
+        '<error severity="error" message="CSS 코드가 비어있습니다" source="stylelint"/>',
+      );
+    });
+  });
+
+  describe('junitReporter', () => {
+    test('should emit a failing testcase per warning and count totals', () => {
+      const xml = junitReporter(files, '16.26.1');
+
+      expect(xml).toContain(
+        '<testsuites name="stylelint" tests="3" failures="1" errors="1">',
+      );
+      expect(xml).toContain(
+        '<testcase name="a.css:2:3 color-named" classname="stylelint.rules.color-named">',
+      );
+      expect(xml).toContain(
+        '<failure message="Unexpected named color &quot;red&quot; (color-named)" type="error">',
+      );
+      // 경고가 없는 파일은 통과한 testcase 하나로 표시
+      expect(xml).toContain(
+        '<testsuite name="b.css" tests="1" failures="0" errors="0">\n    <testcase name="b.css" classname="stylelint"/>',
+      );
+      expect(xml).toContain('<error message="CSS 코드가 비어있습니다"/>');
+    });
+  });
+
+  describe('githubReporter', () => {
+    test('should emit one workflow command per warning', () => {
+      expect(githubReporter(files, '16.26.1')).toBe(
+        '::error file=a.css,line=2,col=3,endLine=2,endColumn=8,title=color-named::Unexpected named color "red" (color-named)\n' +
+          '::error file=c.css,title=stylelint::CSS 코드가 비어있습니다\n',
+      );
+    });
+
+    test('should escape properties and multi-line messages', () => {
+      const output = githubReporter(
+        [
+          {
+            path: 'dir,a:b.css',
+            warnings: [
+              { ...warning, severity: 'warning', text: '100% bad\nline' },
+            ],
+          },
+        ],
+        '16.26.1',
+      );
+
+      expect(output).toStartWith('::warning file=dir%2Ca%3Ab.css,');
+      expect(output).toEndWith('::100%25 bad%0Aline\n');
+    });
+  });
+
+  describe('textReporter', () => {
+    test('should list problems per file with a summary', () => {
+      const output = textReporter(
+        [
+          ...files,
+          {
+            path: 'd.css',
+            warnings: [
+              { ...warning, line: 12, severity: 'warning', text: 'Minor' },
+              warning,
+            ],
+          },
+        ],
+        '16.26.1',
+      );
+
+      expect(output).toBe(
+        'a.css\n' +
+          '  2:3  error    Unexpected named color "red" (color-named)\n' +
+          '\n' +
+          'c.css\n' +
+          '  error  CSS 코드가 비어있습니다\n' +
+          '\n' +
+          'd.css\n' +
+          '  12:3  warning  Minor\n' +
+          '  2:3   error    Unexpected named color "red" (color-named)\n' +
+          '\n' +
+          '문제 4개 (오류 3개, 경고 1개)\n',
+      );
+    });
+
+    test('should be empty when there are no problems', () => {
+      expect(textReporter([{ path: 'b.css', warnings: [] }], '16.26.1')).toBe(
+        '',
+      );
+    });
+  });
+
+  describe('resolveReportFormat', () => {
+    test('should prefer the format query parameter', () => {
+      expect(resolveReportFormat('junit', 'application/sarif+json')).toBe(
+        'junit',
+      );
+    });
+
+    test('should negotiate the Accept header by quality', () => {
+      expect(resolveReportFormat(undefined, 'application/sarif+json')).toBe(
+        'sarif',
+      );
+      expect(
+        resolveReportFormat(undefined, 'text/plain;q=0.5, application/xml'),
+      ).toBe('checkstyle');
+      expect(resolveReportFormat(undefined, 'text/html, */*;q=0.8')).toBe(
+        'json',
+      );
+      expect(resolveReportFormat(undefined, null)).toBe('json');
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, test, expect } from 'bun:test';
+import { stableStringify } from '../../src/utils/stableStringify';
+
+describe('stableStringify', () => {
+  test('should sort object keys at every depth', () => {
+    expect(stableStringify({ b: 1, a: [2, { d: 3, c: 4 }] })).toBe(
+      '{"a":[2,{"c":4,"d":3}],"b":1}',
+    );
+    expect(stableStringify({ x: { b: 1, a: 2 } })).toBe(
+      stableStringify({ x: { a: 2, b: 1 } }),
+    );
+  });
+
+  test('should omit undefined values like JSON.stringify', () => {
+    expect(stableStringify({ a: undefined, b: null })).toBe('{"b":null}');
+  });
+});
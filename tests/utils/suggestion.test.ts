@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  findClosestMatch,
+  levenshteinDistance,
+} from '../../src/utils/suggestion';
+
+describe('suggestion', () => {
+  describe('levenshteinDistance', () => {
+    test('should count insertions, deletions and substitutions', () => {
+      expect(levenshteinDistance('color', 'color')).toBe(0);
+      expect(levenshteinDistance('colour', 'color')).toBe(1);
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('findClosestMatch', () => {
+    const candidates = [
+      'color-named',
+      'color-no-invalid-hex',
+      '@stylistic/indentation',
+    ];
+
+    test('should return the closest candidate', () => {
+      expect(findClosestMatch('colour-no-invalid-hex', candidates)).toBe(
+        'color-no-invalid-hex',
+      );
+    });
+
+    test('should match plugin rules without their prefix', () => {
+      expect(findClosestMatch('indentaton', candidates)).toBe(
+        '@stylistic/indentation',
+      );
+    });
+
+    test('should return undefined when nothing is close enough', () => {
+      expect(findClosestMatch('max-nesting-depth', candidates)).toBeUndefined();
+      expect(findClosestMatch('colr-nmd', candidates, 1)).toBeUndefined();
+    });
+  });
+});